@@ -12,6 +12,8 @@ import {
 	createRole,
 	createRouteAccessAction,
 	createRoutePermission,
+	PermissionDeniedError,
+	RingBufferAuditSink,
 } from "../../src";
 
 describe("AccessControl Integration", () => {
@@ -276,4 +278,1008 @@ describe("AccessControl Integration", () => {
 
 		expect(accessibleList).toEqual(["a", "b", "c"]);
 	});
+
+	it("should return a structured decision for an action", () => {
+		const adminRole = createRole("ADMIN");
+		const permission = createRoutePermission(adminRole, [
+			{
+				route: "/dashboard",
+			},
+		]);
+
+		const accessControl = createAccessControl({ roles: [adminRole] });
+
+		const allowed = accessControl.decide(
+			createRouteAccessAction(adminRole.getCode(), { route: "/dashboard" }),
+		);
+		const denied = accessControl.decide(
+			createRouteAccessAction(adminRole.getCode(), { route: "/settings" }),
+		);
+		const unknown = accessControl.decide(
+			createRouteAccessAction("UNKNOWN", { route: "/dashboard" }),
+		);
+
+		expect(allowed.status).toBe("success");
+		expect(allowed.permission).toBe(permission);
+		expect(allowed.role).toBe(adminRole);
+		expect(allowed.message.status).toBe("success");
+
+		expect(denied.status).toBe("failed");
+		expect(denied.permission).toBe(permission);
+		expect(denied.message.message).toBe("route access is not allowed");
+
+		expect(unknown.status).toBe("failed");
+		expect(unknown.permission).toBeNull();
+		expect(unknown.role).toBeUndefined();
+		expect(unknown.message.message).toBe("Role not found.");
+	});
+
+	it("should answer can, cannot and assert", () => {
+		const adminRole = createRole("ADMIN");
+		createRoutePermission(adminRole, [
+			{
+				route: "/dashboard",
+			},
+		]);
+
+		const accessControl = createAccessControl({ roles: [adminRole] });
+		const allowedAction = createRouteAccessAction(adminRole.getCode(), {
+			route: "/dashboard",
+		});
+		const deniedAction = createRouteAccessAction(adminRole.getCode(), {
+			route: "/settings",
+		});
+
+		expect(accessControl.can(allowedAction)).toBe(true);
+		expect(accessControl.cannot(allowedAction)).toBe(false);
+		expect(accessControl.can(deniedAction)).toBe(false);
+		expect(accessControl.cannot(deniedAction)).toBe(true);
+
+		expect(accessControl.assert(allowedAction).status).toBe("success");
+		expect(() => accessControl.assert(deniedAction)).toThrow(
+			PermissionDeniedError,
+		);
+
+		try {
+			accessControl.assert(deniedAction);
+		} catch (error) {
+			expect((error as PermissionDeniedError).decision.action).toBe(
+				deniedAction,
+			);
+			expect((error as PermissionDeniedError).message).toBe(
+				"route access is not allowed",
+			);
+		}
+	});
+
+	it("should evaluate every permission of the same type", () => {
+		const adminRole = createRole("ADMIN");
+		createRoutePermission(adminRole, [{ route: "/dashboard" }]);
+		createRoutePermission(adminRole, [{ route: "/settings" }]);
+
+		const accessControl = createAccessControl({ roles: [adminRole] });
+
+		expect(
+			accessControl.can(
+				createRouteAccessAction(adminRole.getCode(), { route: "/dashboard" }),
+			),
+		).toBe(true);
+		expect(
+			accessControl.can(
+				createRouteAccessAction(adminRole.getCode(), { route: "/settings" }),
+			),
+		).toBe(true);
+		expect(
+			accessControl.can(
+				createRouteAccessAction(adminRole.getCode(), { route: "/profile" }),
+			),
+		).toBe(false);
+	});
+
+	it("should combine the permissions with the configured algorithm", () => {
+		const adminRole = createRole("ADMIN");
+		createRoutePermission(adminRole, [{ route: /^\/admin/ }]);
+		const excluding = createRoutePermission(adminRole, [
+			{ exclude: true, route: "/admin/billing" },
+		]);
+		createComponentPermission(adminRole, [
+			{ actions: ["view"], identifier: "billing" },
+		]);
+		createComponentPermission(adminRole, [
+			{ actions: ["view"], exclude: true, identifier: "billing" },
+		]);
+
+		const accessControl = createAccessControl({
+			combiningAlgorithms: { component: "permit-overrides" },
+			roles: [adminRole],
+		});
+		const routeAction = createRouteAccessAction(adminRole.getCode(), {
+			route: "/admin/billing",
+		});
+		const componentAction = createComponentAccessAction(adminRole.getCode(), {
+			action: "view",
+			identifier: "billing",
+		});
+
+		expect(accessControl.getCombiningAlgorithm("navigation")).toBe(
+			"deny-overrides",
+		);
+		expect(accessControl.decide(routeAction).permission).toBe(excluding);
+		expect(accessControl.can(componentAction)).toBe(true);
+
+		accessControl.setCombiningAlgorithm("first-applicable");
+
+		expect(accessControl.can(routeAction)).toBe(true);
+
+		accessControl.setCombiningAlgorithm("deny-overrides", "component");
+
+		expect(accessControl.can(componentAction)).toBe(false);
+	});
+
+	it("should explain which rule decided an action", () => {
+		const adminRole = createRole("ADMIN");
+		const group = createGroup("GROUP");
+
+		createRoutePermission(group, [{ route: /^\/admin/ }]);
+		const rolePermission = createRoutePermission(adminRole, [
+			{ exclude: true, route: "/admin/billing" },
+			{ route: "/admin/billing/invoices" },
+		]);
+
+		adminRole.assignGroup(group);
+
+		const accessControl = createAccessControl({
+			groups: [group],
+			roles: [adminRole],
+		});
+
+		const trace = accessControl.explain(
+			createRouteAccessAction(adminRole.getCode(), {
+				route: "/admin/billing",
+			}),
+		);
+
+		expect(trace.decision.status).toBe("failed");
+		expect(trace.steps.map(({ step }) => step)).toEqual([
+			"role-lookup",
+			"permissions",
+			"combination",
+		]);
+
+		const [lookup, permissions, combination] = trace.steps;
+
+		expect(lookup).toMatchObject({ role: adminRole, roleCode: "ADMIN" });
+		expect(combination).toMatchObject({
+			algorithm: "deny-overrides",
+			permission: rolePermission,
+		});
+
+		if (permissions.step !== "permissions") {
+			throw new Error("expected the permissions step");
+		}
+
+		const roleTrace = permissions.permissions.find(
+			({ permission }) => permission === rolePermission,
+		);
+
+		expect(roleTrace?.applicable).toBe(true);
+		expect(roleTrace?.message?.message).toBe("route access is not allowed");
+		expect(roleTrace?.rules).toMatchObject([
+			{
+				excluded: false,
+				matched: true,
+				matchedBy: "regex",
+				origin: group,
+				pattern: "/^\\/admin/",
+				skipped: false,
+			},
+			{
+				excluded: true,
+				matched: true,
+				matchedBy: "string",
+				origin: adminRole,
+				pattern: "/admin/billing",
+				skipped: false,
+			},
+			{ excluded: false, matched: false, origin: adminRole, skipped: true },
+		]);
+	});
+
+	it("should explain component and list decisions", () => {
+		const adminRole = createRole("ADMIN");
+		createComponentPermission(adminRole, [
+			{ actions: ["view"], identifier: /^billing/ },
+		]);
+		createMenuPermission(adminRole, [
+			{ identifier: "main", list: ["a"] },
+			{ exclude: true, identifier: "main", list: ["b"] },
+		]);
+
+		const accessControl = createAccessControl({ roles: [adminRole] });
+
+		const componentTrace = accessControl.explain(
+			createComponentAccessAction(adminRole.getCode(), {
+				action: "edit",
+				identifier: "billing-panel",
+			}),
+		);
+		const menuTrace = accessControl.explain(
+			createMenuAccessAction(adminRole.getCode(), {
+				identifier: "main",
+				menu: ["a", "b"],
+			}),
+		);
+		const missingRoleTrace = accessControl.explain(
+			createMenuAccessAction("UNKNOWN", { identifier: "main", menu: [] }),
+		);
+
+		expect(componentTrace.decision.status).toBe("failed");
+		expect(componentTrace.steps[1]).toMatchObject({
+			permissions: [{ applicable: false, rules: [{ matched: false }] }],
+		});
+		expect(menuTrace.decision.status).toBe("success");
+		expect(menuTrace.steps[1]).toMatchObject({
+			permissions: [
+				{
+					applicable: true,
+					rules: [
+						{ excluded: false, matched: true },
+						{ excluded: true, matched: true },
+					],
+				},
+			],
+		});
+		expect(missingRoleTrace.steps).toEqual([
+			{ role: undefined, roleCode: "UNKNOWN", step: "role-lookup" },
+		]);
+	});
+
+	it("should allow access granted by a grandparent group", () => {
+		const adminRole = createRole("ADMIN");
+		const groupA = createGroup("GROUP_A");
+		const groupB = createGroup("GROUP_B", groupA);
+		const groupC = createGroup("GROUP_C", groupB);
+
+		createRoutePermission(groupA, [{ route: "/dashboard" }]);
+		createRoutePermission(adminRole, [{ route: "/profile" }]);
+
+		adminRole.assignGroup(groupC);
+
+		const accessControl = createAccessControl({
+			groups: [groupA, groupB, groupC],
+			roles: [adminRole],
+		});
+
+		expect(
+			accessControl.can(
+				createRouteAccessAction(adminRole.getCode(), { route: "/dashboard" }),
+			),
+		).toBe(true);
+		expect(
+			accessControl.can(
+				createRouteAccessAction(adminRole.getCode(), { route: "/profile" }),
+			),
+		).toBe(true);
+	});
+
+	it("should remove roles at runtime", () => {
+		const adminRole = createRole("ADMIN");
+		const group = createGroup("GROUP");
+		createRoutePermission(adminRole, [{ route: "/dashboard" }]);
+		adminRole.assignGroup(group);
+
+		const accessControl = createAccessControl({
+			groups: [group],
+			roles: [adminRole],
+		});
+		const action = createRouteAccessAction(adminRole.getCode(), {
+			route: "/dashboard",
+		});
+
+		expect(accessControl.can(action)).toBe(true);
+
+		accessControl.removeRole("ADMIN");
+
+		expect(accessControl.can(action)).toBe(false);
+		expect(accessControl.getRoles()).toEqual([]);
+		expect(group.getRoles()).toEqual([]);
+		expect(adminRole.getGroups()).toEqual([]);
+	});
+
+	it("should remove groups and re-parent the groups inheriting from them", () => {
+		const adminRole = createRole("ADMIN");
+		const editorRole = createRole("EDITOR");
+		const viewers = createGroup("VIEWERS");
+		const editors = createGroup("EDITORS", viewers);
+		const managers = createGroup("MANAGERS", editors);
+
+		createRoutePermission(viewers, [{ route: "/articles" }]);
+		createRoutePermission(editors, [{ route: "/articles/edit" }]);
+
+		adminRole.assignGroup(managers);
+		editorRole.assignGroup(editors);
+
+		const accessControl = createAccessControl({
+			groups: [viewers, editors, managers],
+			roles: [adminRole, editorRole],
+		});
+
+		accessControl.removeGroup(editors);
+
+		expect(accessControl.getGroups()).toEqual([viewers, managers]);
+		expect(managers.getInheritFrom()).toBe(viewers);
+		expect(editorRole.getGroups()).toEqual([]);
+		expect(
+			accessControl.can(
+				createRouteAccessAction(adminRole.getCode(), { route: "/articles" }),
+			),
+		).toBe(true);
+		expect(
+			accessControl.can(
+				createRouteAccessAction(adminRole.getCode(), {
+					route: "/articles/edit",
+				}),
+			),
+		).toBe(false);
+	});
+
+	it("should notify subscribers of every policy mutation", () => {
+		const adminRole = createRole("ADMIN");
+		const editorRole = createRole("EDITOR", { strict: true });
+		const viewers = createGroup("VIEWERS");
+		const editors = createGroup("EDITORS");
+		const accessControl = createAccessControl({ roles: [adminRole] });
+
+		const listener = vi.fn();
+		const ruleListener = vi.fn();
+		const unsubscribe = accessControl.subscribe(listener);
+		accessControl.on("ruleAdded", ruleListener);
+
+		const permission = createRoutePermission(adminRole, []);
+		permission.addRule({ route: "/dashboard" });
+		adminRole.assignGroup(viewers);
+		createRoutePermission(viewers, [{ route: "/articles" }]);
+		accessControl.addRole(editorRole);
+		viewers.assignRole(editorRole);
+		editors.assignRole(editorRole);
+
+		const types = listener.mock.calls.map(([event]) => event.type);
+
+		expect(types).toEqual([
+			"permissionAssigned",
+			"ruleAdded",
+			"roleGroupAssigned",
+			"permissionAssigned",
+			"roleAdded",
+			"roleGroupAssigned",
+			"roleGroupRemoved",
+			"roleGroupAssigned",
+			"roleMovedGroup",
+		]);
+		expect(listener).toHaveBeenLastCalledWith({
+			from: viewers,
+			role: editorRole,
+			to: editors,
+			type: "roleMovedGroup",
+		});
+		expect(ruleListener).toHaveBeenCalledOnce();
+		expect(ruleListener).toHaveBeenCalledWith({
+			permission,
+			rules: [{ route: "/dashboard" }],
+			type: "ruleAdded",
+		});
+
+		unsubscribe();
+		accessControl.removeRole(adminRole);
+
+		expect(listener).toHaveBeenCalledTimes(types.length);
+	});
+
+	it("should increment the snapshot version on every mutation", () => {
+		const adminRole = createRole("ADMIN");
+		const accessControl = createAccessControl({ roles: [adminRole] });
+		const { getSnapshot, subscribe } = accessControl;
+		const listener = vi.fn();
+
+		subscribe(listener);
+
+		expect(getSnapshot()).toBe(0);
+
+		const permission = createRoutePermission(adminRole, []);
+		permission.removeRule(() => true);
+		accessControl.setCombiningAlgorithm("permit-overrides");
+
+		expect(getSnapshot()).toBe(2);
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
+
+	it("should cache decisions until the policy changes", () => {
+		const viewers = createGroup("VIEWERS");
+		const adminRole = createRole("ADMIN");
+		const accessControl = createAccessControl({
+			cache: { maxSize: 10 },
+			roles: [adminRole],
+		});
+		const permission = createRoutePermission(viewers, [{ route: "/home" }]);
+		const action = createRouteAccessAction("ADMIN", { route: "/home" });
+
+		adminRole.assignGroup(viewers);
+
+		const sameAction = createRouteAccessAction("ADMIN", { route: "/home" });
+
+		expect(accessControl.can(action)).toBe(true);
+		expect(accessControl.decide(sameAction).action).toBe(sameAction);
+		expect(accessControl.getCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+
+		permission.addRule({ exclude: true, route: "/home" });
+
+		expect(accessControl.can(action)).toBe(false);
+		expect(accessControl.getCacheStats()).toMatchObject({
+			hits: 1,
+			invalidations: 1,
+			misses: 2,
+			size: 1,
+		});
+	});
+
+	it("should not cache decisions involving function conditions", () => {
+		const adminRole = createRole("ADMIN");
+		const accessControl = createAccessControl({
+			cache: true,
+			roles: [adminRole],
+		});
+		let maintenance = false;
+
+		createRoutePermission(adminRole, [
+			{ condition: () => !maintenance, route: "/home" },
+		]);
+		createComponentPermission(adminRole, [
+			{ actions: ["view"], identifier: "article" },
+		]);
+
+		const visitHome = createRouteAccessAction("ADMIN", { route: "/home" });
+
+		expect(accessControl.can(visitHome)).toBe(true);
+
+		maintenance = true;
+
+		expect(accessControl.can(visitHome)).toBe(false);
+		expect(
+			accessControl.can(
+				createComponentAccessAction("ADMIN", {
+					action: "view",
+					identifier: "article",
+				}),
+			),
+		).toBe(true);
+		expect(accessControl.getCacheStats()).toMatchObject({ hits: 0, size: 1 });
+	});
+
+	it("should match rules only when their condition is met by the context", () => {
+		const editors = createGroup("EDITORS");
+		const editorRole = createRole("EDITOR");
+		const accessControl = createAccessControl({
+			cache: true,
+			roles: [editorRole],
+		});
+
+		editorRole.assignGroup(editors);
+		createComponentPermission(editors, [
+			{ actions: ["view"], identifier: "article" },
+			{
+				actions: ["edit"],
+				condition: (context) =>
+					context.subject?.id === context.resource?.ownerId,
+				identifier: "article",
+			},
+		]);
+		createRoutePermission(editors, [
+			{
+				condition: { lt: [{ ref: "environment.hour" }, 18] },
+				route: /^\/articles/,
+			},
+		]);
+
+		const edit = (subjectId: string) =>
+			createComponentAccessAction(
+				"EDITOR",
+				{ action: "edit", identifier: "article" },
+				{
+					context: { resource: { ownerId: "u1" }, subject: { id: subjectId } },
+				},
+			);
+		const visit = (hour: number) =>
+			createRouteAccessAction(
+				"EDITOR",
+				{ route: "/articles" },
+				{ context: { environment: { hour } } },
+			);
+
+		expect(accessControl.can(edit("u1"))).toBe(true);
+		expect(accessControl.can(edit("u2"))).toBe(false);
+		expect(accessControl.can(visit(9))).toBe(true);
+		expect(accessControl.can(visit(20))).toBe(false);
+		expect(accessControl.explain(visit(20)).steps[1]).toMatchObject({
+			permissions: [{ rules: [{ conditionMet: false, matched: false }] }],
+		});
+	});
+
+	it("should deny conditioned rules evaluated without a context", () => {
+		const editorRole = createRole("EDITOR");
+		const accessControl = createAccessControl({ roles: [editorRole] });
+
+		createComponentPermission(editorRole, [
+			{
+				actions: ["edit"],
+				condition: {
+					eq: [{ ref: "subject.id" }, { ref: "resource.ownerId" }],
+				},
+				identifier: "article",
+			},
+		]);
+
+		const editArticle = { action: "edit" as const, identifier: "article" };
+
+		expect(
+			accessControl.can(createComponentAccessAction("EDITOR", editArticle)),
+		).toBe(false);
+		expect(
+			accessControl.can(
+				createComponentAccessAction("EDITOR", editArticle, {
+					context: { resource: { ownerId: "u1" }, subject: { id: "u1" } },
+				}),
+			),
+		).toBe(true);
+	});
+
+	it("should evaluate time-bound rules and permissions with the clock", () => {
+		const contractors = createGroup("CONTRACTORS");
+		const contractorRole = createRole("CONTRACTOR");
+		let now = new Date("2026-03-01T10:00:00Z");
+		const accessControl = createAccessControl({
+			cache: true,
+			clock: () => now,
+			roles: [contractorRole],
+		});
+
+		contractorRole.assignGroup(contractors);
+
+		const routes = createRoutePermission(contractors, [
+			{ route: "/reports", validUntil: "2026-04-01T00:00:00Z" },
+			{ route: "/projects", validFrom: "2026-03-15T00:00:00Z" },
+		]);
+		const components = createComponentPermission(contractorRole, [
+			{ actions: ["view"], identifier: "invoices" },
+		]).setValidity({ validUntil: new Date("2026-03-10T00:00:00Z") });
+		const visit = (route: string) =>
+			createRouteAccessAction("CONTRACTOR", { route });
+		const viewInvoices = createComponentAccessAction("CONTRACTOR", {
+			action: "view",
+			identifier: "invoices",
+		});
+
+		expect(accessControl.can(visit("/reports"))).toBe(true);
+		expect(accessControl.can(visit("/projects"))).toBe(false);
+		expect(accessControl.can(viewInvoices)).toBe(true);
+		expect(accessControl.getExpiredRules()).toEqual([]);
+
+		now = new Date("2026-04-01T00:00:00Z");
+
+		expect(accessControl.can(visit("/projects"))).toBe(true);
+		expect(accessControl.decide(visit("/reports")).message.message).toBe(
+			"navigation access expired on 2026-04-01T00:00:00.000Z",
+		);
+		expect(accessControl.decide(viewInvoices).message.message).toBe(
+			"component access expired on 2026-03-10T00:00:00.000Z",
+		);
+		expect(accessControl.explain(visit("/reports")).steps[1]).toMatchObject({
+			permissions: [{ rules: [{ matched: false, validity: "expired" }, {}] }],
+		});
+		expect(accessControl.getExpiredRules()).toEqual([
+			{
+				origin: contractors,
+				permission: routes,
+				rule: routes.rules[0],
+				validUntil: new Date("2026-04-01T00:00:00Z"),
+			},
+			{
+				origin: contractorRole,
+				permission: components,
+				validUntil: new Date("2026-03-10T00:00:00Z"),
+			},
+		]);
+		expect(accessControl.getCacheStats()).toMatchObject({ hits: 0, size: 0 });
+	});
+
+	it("should decide a batch of heterogeneous actions, keyed like the actions", () => {
+		const editorRole = createRole("EDITOR");
+		const accessControl = createAccessControl({
+			cache: true,
+			roles: [editorRole],
+		});
+
+		createComponentPermission(editorRole, [
+			{ actions: ["view"], identifier: "article" },
+		]);
+		createMenuPermission(editorRole, [
+			{ identifier: "menu", list: ["a", "b"] },
+		]);
+
+		const getRoleByCode = vi.spyOn(accessControl, "getRoleByCode");
+		const decisions = accessControl.checkMany({
+			editArticle: createComponentAccessAction("EDITOR", {
+				action: "edit",
+				identifier: "article",
+			}),
+			openMenu: createMenuAccessAction("EDITOR", {
+				identifier: "menu",
+				menu: ["a"],
+			}),
+			viewArticle: createComponentAccessAction("EDITOR", {
+				action: "view",
+				identifier: "article",
+			}),
+			visitHome: createRouteAccessAction("GUEST", { route: "/home" }),
+		});
+
+		expect(decisions.editArticle.status).toBe("failed");
+		expect(decisions.openMenu.status).toBe("success");
+		expect(decisions.viewArticle.status).toBe("success");
+		expect(decisions.visitHome.message.message).toBe("Role not found.");
+		// One lookup of each role, and one of the permissions of each role and action type
+		expect(getRoleByCode).toHaveBeenCalledTimes(5);
+
+		const [view, edit] = accessControl.checkMany([
+			decisions.viewArticle.action,
+			decisions.editArticle.action,
+		]);
+
+		expect([view.status, edit.status]).toEqual(["success", "failed"]);
+		expect(view.action).toBe(decisions.viewArticle.action);
+		expect(accessControl.getCacheStats()).toMatchObject({ hits: 2 });
+	});
+
+	it("should flatten the rules of each permission once per batch", () => {
+		const staff = createGroup("STAFF");
+		const editorRole = createRole("EDITOR");
+		const accessControl = createAccessControl({ roles: [editorRole] });
+
+		editorRole.assignGroup(staff);
+		createRoutePermission(staff, [{ route: "/home" }]);
+		createRoutePermission(editorRole, [
+			{ exclude: true, route: "/admin" },
+			{ route: /^\/articles\// },
+		]);
+		createComponentPermission(editorRole, [
+			{ actions: ["view"], identifier: "article" },
+		]);
+
+		const getInheritanceChain = vi.spyOn(editorRole, "getInheritanceChain");
+		const decisions = accessControl.checkMany([
+			...["/home", "/admin", "/articles/1", "/articles/2", "/reports"].map(
+				(route) => createRouteAccessAction("EDITOR", { route }),
+			),
+			...(["view", "edit"] as const).map((action) =>
+				createComponentAccessAction("EDITOR", {
+					action,
+					identifier: "article",
+				}),
+			),
+		]);
+
+		expect(decisions.map(({ status }) => status)).toEqual([
+			"success",
+			"failed",
+			"success",
+			"success",
+			"failed",
+			"success",
+			"failed",
+		]);
+		// One lookup of the permissions of each action type, and one flattening of the rules of each permission
+		expect(getInheritanceChain).toHaveBeenCalledTimes(4);
+
+		accessControl.decide(
+			createRouteAccessAction("EDITOR", { route: "/admin" }),
+		);
+
+		expect(getInheritanceChain).toHaveBeenCalledTimes(6);
+	});
+
+	it("should find the roles allowed or excluded from an action", () => {
+		const staff = createGroup("STAFF");
+		const adminRole = createRole("ADMIN");
+		const accountantRole = createRole("ACCOUNTANT");
+		const internRole = createRole("INTERN");
+		const guestRole = createRole("GUEST");
+
+		[adminRole, accountantRole, internRole].forEach((role) => {
+			role.assignGroup(staff);
+		});
+		createRoutePermission(staff, [{ route: /^\/admin\// }]);
+		createRoutePermission(internRole, [
+			{ exclude: true, route: "/admin/billing" },
+		]);
+		createRoutePermission(accountantRole, [{ route: "/admin/billing" }]);
+		createComponentPermission(guestRole, [
+			{ actions: ["view"], identifier: "salary-field" },
+		]);
+
+		const accessControl = createAccessControl({
+			cache: true,
+			roles: [adminRole, accountantRole, internRole, guestRole],
+		});
+		const cacheStats = accessControl.getCacheStats();
+		const { allowed, excluded } = accessControl.whoCan("navigation", {
+			route: "/admin/billing",
+		});
+
+		expect(accessControl.getCacheStats()).toEqual(cacheStats);
+
+		expect(
+			allowed.map(({ origin, role, rule }) => [
+				role.getCode(),
+				origin.getCode(),
+				rule,
+			]),
+		).toEqual([
+			["ADMIN", "STAFF", { route: /^\/admin\// }],
+			["ACCOUNTANT", "ACCOUNTANT", { route: "/admin/billing" }],
+		]);
+		expect(excluded).toHaveLength(1);
+		expect(excluded[0]).toMatchObject({
+			origin: internRole,
+			role: internRole,
+			rule: { exclude: true, route: "/admin/billing" },
+		});
+		expect(excluded[0].decision.status).toBe("failed");
+		expect(
+			accessControl.whoCan("component", {
+				action: "edit",
+				identifier: "salary-field",
+			}).allowed,
+		).toEqual([]);
+	});
+
+	it("should report the same deciding rule when several rules match", () => {
+		const staff = createGroup("STAFF");
+		const accountantRole = createRole("ACCOUNTANT");
+		const sink = new RingBufferAuditSink();
+
+		accountantRole.assignGroup(staff);
+		createRoutePermission(staff, [{ route: /^\/admin\// }]);
+
+		const routes = createRoutePermission(accountantRole, [
+			{ route: "/admin/billing" },
+		]);
+		const accessControl = createAccessControl({
+			audit: { sinks: [sink] },
+			roles: [accountantRole],
+		});
+		const decision = accessControl.decide(
+			createRouteAccessAction("ACCOUNTANT", { route: "/admin/billing" }),
+		);
+		const { allowed } = accessControl.whoCan("navigation", {
+			route: "/admin/billing",
+		});
+
+		expect(decision.message.details).toEqual({
+			identifier: "/admin/billing",
+			rule: routes.rules[0],
+		});
+		expect(sink.getRecords()[0].rule).toEqual({ route: "/admin/billing" });
+		expect(allowed).toHaveLength(1);
+		expect(allowed[0]).toMatchObject({
+			origin: accountantRole,
+			rule: routes.rules[0],
+		});
+	});
+
+	it("should let privileged roles impersonate other roles", () => {
+		const supportRole = createRole("SUPPORT");
+		const customerRole = createRole("CUSTOMER");
+		const accessControl = createAccessControl({
+			cache: true,
+			impersonators: ["SUPPORT"],
+			roles: [supportRole, customerRole],
+		});
+		const viewAs = (roleCode: string, route: string) =>
+			createRouteAccessAction(
+				"CUSTOMER",
+				{ route },
+				{ actor: { id: "agent-7", mode: "impersonation", roleCode } },
+			);
+		const onFailure = vi.fn();
+
+		createRoutePermission(customerRole, [{ route: "/orders" }]);
+
+		expect(accessControl.decide(viewAs("SUPPORT", "/orders"))).toMatchObject({
+			actor: { id: "agent-7", mode: "impersonation", roleCode: "SUPPORT" },
+			message: { actor: { id: "agent-7" }, status: "success" },
+			status: "success",
+		});
+
+		accessControl.checkPermissions(viewAs("SUPPORT", "/admin"), {
+			onFailure,
+			onSuccess: vi.fn(),
+		});
+
+		expect(onFailure.mock.calls[0][0].getActor()).toMatchObject({
+			id: "agent-7",
+		});
+		expect(onFailure.mock.calls[0][2].actor).toMatchObject({ id: "agent-7" });
+		expect(
+			accessControl.decide(viewAs("CUSTOMER", "/orders")).message,
+		).toMatchObject({
+			actor: { roleCode: "CUSTOMER" },
+			message: "Role CUSTOMER can't impersonate other roles.",
+		});
+		// Decisions are cached regardless of the actor, which is carried by each decision
+		expect(
+			accessControl.decide(
+				createRouteAccessAction("CUSTOMER", { route: "/orders" }),
+			).message.actor,
+		).toBeUndefined();
+	});
+
+	it("should restrict delegated actions to the delegated types and period", () => {
+		const managerRole = createRole("MANAGER");
+		const deputyRole = createRole("DEPUTY");
+		let now = new Date("2024-08-01T00:00:00Z");
+		const events: string[] = [];
+		const accessControl = createAccessControl({
+			clock: () => now,
+			roles: [managerRole, deputyRole],
+		});
+		const actor = {
+			id: "u42",
+			mode: "delegation" as const,
+			roleCode: "DEPUTY",
+		};
+		const editBudget = createComponentAccessAction(
+			"MANAGER",
+			{ action: "edit", identifier: "budget" },
+			{ actor },
+		);
+		const visitPayroll = createRouteAccessAction(
+			"MANAGER",
+			{ route: "/payroll" },
+			{ actor },
+		);
+
+		createComponentPermission(managerRole, [
+			{ actions: ["view"], identifier: "budget" },
+		]);
+		createRoutePermission(managerRole, [{ route: "/payroll" }]);
+		accessControl.subscribe(({ type }) => events.push(type));
+
+		expect(accessControl.decide(editBudget).message.message).toBe(
+			"No delegation from MANAGER to DEPUTY covers component access.",
+		);
+
+		const revoke = accessControl.delegate({
+			from: "MANAGER",
+			to: "DEPUTY",
+			types: ["component"],
+			validUntil: "2024-09-01T00:00:00Z",
+		});
+
+		// The deputy gets the intersection of the delegated types and the permissions of the manager
+		expect(accessControl.can(editBudget)).toBe(false);
+		expect(
+			accessControl.decide(
+				createComponentAccessAction(
+					"MANAGER",
+					{ action: "view", identifier: "budget" },
+					{ actor },
+				),
+			),
+		).toMatchObject({ actor, status: "success" });
+		expect(accessControl.can(visitPayroll)).toBe(false);
+
+		now = new Date("2024-09-01T00:00:00Z");
+
+		expect(
+			accessControl.can(
+				createComponentAccessAction(
+					"MANAGER",
+					{ action: "view", identifier: "budget" },
+					{ actor },
+				),
+			),
+		).toBe(false);
+		expect(accessControl.getDelegations()).toHaveLength(1);
+
+		revoke();
+
+		expect(accessControl.getDelegations()).toEqual([]);
+		expect(events).toEqual(["delegationAdded", "delegationRevoked"]);
+	});
+
+	it("should code the reason of every decision", () => {
+		const editors = createGroup("EDITORS");
+		const editorRole = createRole("EDITOR");
+		const accessControl = createAccessControl({
+			clock: () => new Date("2026-03-01T10:00:00Z"),
+			roles: [editorRole],
+		});
+
+		editorRole.assignGroup(editors);
+
+		const routes = createRoutePermission(editors, [
+			{ exclude: true, route: "/articles/drafts" },
+			{ route: /^\/articles/ },
+			{ route: "/reports", validUntil: "2026-02-01T00:00:00Z" },
+			{ route: "/projects", validFrom: "2026-03-15T00:00:00Z" },
+			{
+				condition: { eq: [{ ref: "subject.id" }, "u1"] },
+				route: "/settings",
+			},
+		]);
+
+		createDropdownPermission(editorRole, [
+			{ identifier: "status", list: ["draft"] },
+		]);
+
+		const visit = (route: string) =>
+			accessControl.decide(createRouteAccessAction("EDITOR", { route }))
+				.message;
+
+		expect(visit("/articles/42")).toMatchObject({
+			code: "ALLOWED",
+			details: { identifier: "/articles/42", rule: routes.rules[1] },
+		});
+		expect(visit("/articles/drafts")).toMatchObject({
+			code: "RULE_EXCLUDED",
+			details: { identifier: "/articles/drafts", rule: routes.rules[0] },
+		});
+		expect(visit("/reports")).toMatchObject({
+			code: "RULE_EXPIRED",
+			details: {
+				rule: routes.rules[2],
+				validUntil: new Date("2026-02-01T00:00:00Z"),
+			},
+		});
+		expect(visit("/projects")).toMatchObject({
+			code: "RULE_INACTIVE",
+			details: { rule: routes.rules[3] },
+		});
+		expect(visit("/settings")).toMatchObject({
+			code: "CONDITION_FAILED",
+			details: { rule: routes.rules[4] },
+		});
+		expect(visit("/admin")).toMatchObject({
+			code: "NO_MATCHING_RULE",
+			details: { identifier: "/admin" },
+		});
+		expect(
+			accessControl.decide(
+				createDropdownAccessAction("EDITOR", {
+					dropdown: ["high"],
+					identifier: "priority",
+				}),
+			).message,
+		).toMatchObject({
+			code: "NO_MATCHING_RULE",
+			message: "No access permission for dropdown 'priority'",
+		});
+		expect(
+			accessControl.decide(
+				createMenuAccessAction("EDITOR", { identifier: "main", menu: [] }),
+			).message,
+		).toMatchObject({
+			code: "NO_PERMISSION_FOR_TYPE",
+			details: { identifier: "main" },
+		});
+		expect(
+			accessControl.decide(createRouteAccessAction("GUEST", { route: "/" }))
+				.message,
+		).toMatchObject({ code: "ROLE_NOT_FOUND", details: { identifier: "/" } });
+	});
+
+	it("should not cache decisions by default", () => {
+		const accessControl = createAccessControl({ roles: [] });
+
+		expect(accessControl.getCacheStats()).toBeUndefined();
+	});
 });
@@ -96,10 +96,10 @@ describe("Role class", () => {
 		expect(role.getPermissions("component")).includes(rolePermission);
 	});
 
-	it("should throw an error if a role is already assigned to a group", () => {
+	it("should throw an error if a strict role is already assigned to a group", () => {
 		const groupA = new Group("A");
 		const groupB = new Group("B");
-		const role = new Role("ADMIN");
+		const role = new Role("ADMIN", undefined, { strict: true });
 
 		role.assignGroup(groupA);
 
@@ -115,6 +115,85 @@ describe("Role class", () => {
 	});
 });
 
+describe("Role class with multiple groups", () => {
+	it("should belong to every assigned group", () => {
+		const support = new Group("SUPPORT");
+		const managers = new Group("MANAGERS");
+		const role = new Role("SUPPORT_LEAD");
+
+		role.assignGroup(support);
+		managers.assignRole(role);
+
+		expect(role.getGroups()).toEqual([support, managers]);
+		expect(role.getGroup()).toBe(support);
+		expect(role.hasGroup(managers)).toBe(true);
+		expect(support.getRoles()).toEqual([role]);
+		expect(managers.getRoles()).toEqual([role]);
+	});
+
+	it("should merge the rules of every group in precedence order", () => {
+		const staff = new Group("STAFF");
+		const support = new Group("SUPPORT", staff);
+		const managers = new Group("MANAGERS", staff);
+		const role = new Role("SUPPORT_LEAD");
+
+		const staffPermission = new ComponentAccessPermission(staff, [
+			{ actions: ["view"], identifier: "staff" },
+		]);
+		const supportPermission = new ComponentAccessPermission(support, [
+			{ actions: ["view"], identifier: "support" },
+		]);
+		const managersPermission = new ComponentAccessPermission(managers, [
+			{ actions: ["view"], identifier: "managers" },
+		]);
+		const rolePermission = new ComponentAccessPermission(role, [
+			{ actions: ["view"], identifier: "role" },
+		]);
+
+		role.assignGroup(support);
+		role.assignGroup(managers);
+
+		expect(role.getInheritanceChain()).toEqual([staff, support, managers]);
+		expect(role.getPermissions("component")).toEqual([
+			staffPermission,
+			supportPermission,
+			managersPermission,
+			rolePermission,
+		]);
+		expect(
+			rolePermission.getRules().map(({ identifier }) => identifier),
+		).toEqual(["staff", "support", "managers", "role"]);
+	});
+
+	it("should remove group memberships on both sides", () => {
+		const support = new Group("SUPPORT");
+		const managers = new Group("MANAGERS");
+		const role = new Role("SUPPORT_LEAD");
+
+		role.assignGroup(support);
+		role.assignGroup(managers);
+		role.removeGroup(support);
+		managers.removeRole(role);
+
+		expect(role.getGroups()).toEqual([]);
+		expect(support.getRoles()).toEqual([]);
+		expect(managers.getRoles()).toEqual([]);
+	});
+
+	it("should move a strict role between groups", () => {
+		const support = new Group("SUPPORT");
+		const managers = new Group("MANAGERS");
+		const role = new Role("SUPPORT_LEAD", undefined, { strict: true });
+
+		support.assignRole(role);
+		managers.assignRole(role);
+
+		expect(role.isStrict()).toBe(true);
+		expect(role.getGroups()).toEqual([managers]);
+		expect(support.getRoles()).toEqual([]);
+	});
+});
+
 describe("Group Class", () => {
 	it("should correctly assign permission", () => {
 		const group = new Group("MAIN");
@@ -187,4 +266,115 @@ describe("Group Class", () => {
 				.map((permission) => permission.getRules()),
 		);
 	});
+
+	it("should return every ancestor group, nearest first", () => {
+		const groupA = new Group("GROUP_A");
+		const groupB = new Group("GROUP_B", groupA);
+		const groupC = new Group("GROUP_C", groupB);
+
+		expect(groupC.getAncestors()).toEqual([groupB, groupA]);
+		expect(groupA.getAncestors()).toEqual([]);
+	});
+
+	it("should inherit permissions across every level of the group chain", () => {
+		const groupA = new Group("GROUP_A");
+		const groupB = new Group("GROUP_B", groupA);
+		const groupC = new Group("GROUP_C", groupB);
+		const role = new Role("ADMIN");
+
+		const permissionA = new ComponentAccessPermission(groupA, [
+			{ actions: ["view"], identifier: "a" },
+		]);
+		const permissionC = new ComponentAccessPermission(groupC, [
+			{ actions: ["view"], identifier: "c" },
+		]);
+		const rolePermission = new ComponentAccessPermission(role, [
+			{ actions: ["view"], identifier: "role" },
+		]);
+
+		groupC.assignRole(role);
+
+		expect(role.getPermissions("component")).toEqual([
+			permissionA,
+			permissionC,
+			rolePermission,
+		]);
+		expect(
+			rolePermission.getRules().map(({ identifier }) => identifier),
+		).toEqual(["a", "c", "role"]);
+		expect(
+			permissionC
+				.getRulesByGroupInheritance()
+				.map(({ identifier }) => identifier),
+		).toEqual(["a"]);
+		expect(rolePermission.getRuleEntries()[0].origin).toBe(groupA);
+	});
+
+	it("should throw an error naming the cycle if the inheritance forms a cycle", () => {
+		const groupA = new Group("GROUP_A");
+		const groupB = new Group("GROUP_B", groupA);
+		const groupC = new Group("GROUP_C", groupB);
+
+		expect(() => {
+			groupA.setInheritFrom(groupC);
+		}).toThrow(
+			"group inheritance cycle detected: GROUP_A -> GROUP_C -> GROUP_B -> GROUP_A",
+		);
+		expect(() => {
+			groupA.setInheritFrom(groupA);
+		}).toThrow("group inheritance cycle detected: GROUP_A -> GROUP_A");
+		expect(groupA.getInheritFrom()).toBeUndefined();
+	});
+});
+
+describe("Permission revocation", () => {
+	it("should detach a permission from its target", () => {
+		const role = new Role("ADMIN");
+		const permission = new ComponentAccessPermission(role, [
+			{ actions: ["view"], identifier: "one" },
+		]);
+
+		expect(permission.isAttached()).toBe(true);
+
+		permission.detach();
+
+		expect(permission.isAttached()).toBe(false);
+		expect(role.getPermissions("component")).toHaveLength(0);
+	});
+
+	it("should revoke permissions from roles and groups", () => {
+		const group = new Group("MAIN");
+		const role = new Role("ADMIN");
+		const groupPermission = new ComponentAccessPermission(group, []);
+		const rolePermission = new ComponentAccessPermission(role, []);
+
+		role.assignGroup(group);
+		group.revokePermission(groupPermission);
+		role.revokePermission(rolePermission);
+
+		expect(group.getPermissions()).toHaveLength(0);
+		expect(role.getPermissions()).toHaveLength(0);
+	});
+
+	it("should remove the rules matching a predicate", () => {
+		const group = new Group("MAIN");
+		const role = new Role("ADMIN");
+		new ComponentAccessPermission(group, [
+			{ actions: ["view"], identifier: "inherited" },
+		]);
+		const permission = new ComponentAccessPermission(role, [
+			{ actions: ["view"], identifier: "one" },
+			{ actions: ["edit"], identifier: "two" },
+		]);
+
+		role.assignGroup(group);
+		permission
+			.removeRule((rule) => rule.actions.includes("edit"))
+			.removeRule((rule) => rule.identifier === "inherited");
+
+		expect(permission.getRules().map(({ identifier }) => identifier)).toEqual([
+			"inherited",
+			"one",
+		]);
+	});
 });
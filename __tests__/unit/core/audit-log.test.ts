@@ -0,0 +1,271 @@
+import { describe, expect, it } from "vitest";
+import {
+	createAccessControl,
+	createComponentAccessAction,
+	createComponentPermission,
+	createMenuAccessAction,
+	createMenuPermission,
+	createRole,
+	createRouteAccessAction,
+	createRoutePermission,
+	diffPolicies,
+	getRoleCapabilities,
+	type IAuditOptions,
+	type IAuditRecord,
+	RingBufferAuditSink,
+	runPolicyTests,
+	StreamAuditSink,
+} from "../../../src";
+
+/**
+ * Create an access control where editors can visit every route but /admin, auditing its decisions.
+ * @param {Omit<IAuditOptions, "sinks">} [options] - The audit options.
+ * @returns {object} The access control and the records it audited.
+ */
+function createAuditedAccessControl(
+	options: Omit<IAuditOptions, "sinks"> = {},
+) {
+	const editor = createRole("EDITOR");
+	const records: IAuditRecord[] = [];
+
+	createRoutePermission(editor, [
+		{ route: /^\/.*/ },
+		{ exclude: true, route: "/admin" },
+	]);
+
+	return {
+		accessControl: createAccessControl({
+			audit: { ...options, sinks: [(record) => records.push(record)] },
+			clock: () => new Date("2024-05-01T10:00:00Z"),
+			roles: [editor],
+		}),
+		records,
+	};
+}
+
+describe("AuditLog", () => {
+	it("records every decision with its outcome and deciding rule", () => {
+		const { accessControl, records } = createAuditedAccessControl();
+
+		accessControl.can(createRouteAccessAction("EDITOR", { route: "/home" }));
+		accessControl.can(createRouteAccessAction("EDITOR", { route: "/admin" }));
+		accessControl.can(
+			createRouteAccessAction(
+				"GUEST",
+				{ route: "/home" },
+				{ tenantId: "acme" },
+			),
+		);
+
+		expect(records).toEqual([
+			{
+				actionType: "navigation",
+				outcome: "granted",
+				parameters: { route: "/home" },
+				roleCode: "EDITOR",
+				rule: { route: { $regex: "^\\/.*", flags: "" } },
+				target: "EDITOR",
+				timestamp: "2024-05-01T10:00:00.000Z",
+			},
+			{
+				actionType: "navigation",
+				message: "route access is not allowed",
+				outcome: "denied",
+				parameters: { route: "/admin" },
+				roleCode: "EDITOR",
+				rule: { exclude: true, route: "/admin" },
+				target: "EDITOR",
+				timestamp: "2024-05-01T10:00:00.000Z",
+			},
+			expect.objectContaining({
+				outcome: "denied",
+				roleCode: "GUEST",
+				tenantId: "acme",
+			}),
+		]);
+		expect(records[2]).not.toHaveProperty("target");
+	});
+
+	it("records the actor performing an action on behalf of the role", () => {
+		const { accessControl, records } = createAuditedAccessControl();
+		const actor = {
+			id: "agent-7",
+			mode: "impersonation" as const,
+			roleCode: "SUPPORT",
+		};
+
+		accessControl.can(
+			createRouteAccessAction("EDITOR", { route: "/home" }, { actor }),
+		);
+
+		expect(records[0]).toMatchObject({
+			actor,
+			message: "Role SUPPORT can't impersonate other roles.",
+			outcome: "denied",
+			roleCode: "EDITOR",
+		});
+	});
+
+	it("records cached decisions and leaves out rule predicates", () => {
+		const editor = createRole("EDITOR");
+		const sink = new RingBufferAuditSink();
+
+		createComponentPermission(editor, [
+			{ actions: ["view"], condition: () => true, identifier: "article" },
+		]);
+		createRoutePermission(editor, [{ route: "/home" }]);
+
+		const accessControl = createAccessControl({
+			audit: { sinks: [sink] },
+			cache: true,
+			roles: [editor],
+		});
+		const viewArticle = createComponentAccessAction("EDITOR", {
+			action: "view",
+			identifier: "article",
+		});
+		const visitHome = createRouteAccessAction("EDITOR", { route: "/home" });
+
+		accessControl.can(visitHome);
+		accessControl.can(visitHome);
+		accessControl.can(viewArticle);
+
+		expect(accessControl.getCacheStats()).toMatchObject({ hits: 1 });
+		expect(sink.getRecords()).toHaveLength(3);
+		expect(sink.getRecords()[2].rule).toEqual({
+			actions: ["view"],
+			identifier: "article",
+		});
+	});
+
+	it("leaves out the decisions probed by policy tools", () => {
+		const editor = createRole("EDITOR");
+		const sink = new RingBufferAuditSink();
+
+		createRoutePermission(editor, [{ route: "/home" }]);
+
+		const accessControl = createAccessControl({
+			audit: { sinks: [sink] },
+			cache: true,
+			roles: [editor],
+		});
+
+		diffPolicies(accessControl, accessControl.toJSON());
+		getRoleCapabilities(accessControl, "EDITOR");
+		runPolicyTests(accessControl, [
+			{
+				allow: true,
+				parameters: { route: "/home" },
+				roleCode: "EDITOR",
+				type: "navigation",
+			},
+		]);
+
+		expect(sink.getRecords()).toEqual([]);
+		expect(accessControl.getCacheStats()).toMatchObject({
+			hits: 0,
+			misses: 0,
+			size: 0,
+		});
+	});
+
+	it("samples decisions per outcome", () => {
+		const values = [0.3, 0.7];
+		const { accessControl, records } = createAuditedAccessControl({
+			random: () => values.shift()!,
+			sampleRate: { granted: 0.5 },
+		});
+
+		accessControl.can(createRouteAccessAction("EDITOR", { route: "/home" }));
+		accessControl.can(createRouteAccessAction("EDITOR", { route: "/about" }));
+		accessControl.can(createRouteAccessAction("EDITOR", { route: "/admin" }));
+
+		expect(records.map(({ parameters }) => parameters)).toEqual([
+			{ route: "/home" },
+			{ route: "/admin" },
+		]);
+		expect(() => createAuditedAccessControl({ sampleRate: 2 })).toThrow(
+			"sample rate must be between 0 and 1: 2",
+		);
+	});
+
+	it("redacts sensitive parameters without mutating the action", () => {
+		const { accessControl, records } = createAuditedAccessControl({
+			redact: ["route", "missing.path"],
+		});
+		const action = createRouteAccessAction("EDITOR", { route: "/home" });
+
+		accessControl.can(action);
+
+		expect(records[0].parameters).toEqual({ route: "[REDACTED]" });
+		expect(action.getParameters()).toEqual({ route: "/home" });
+
+		const redacted = createAuditedAccessControl({ redact: () => null });
+
+		redacted.accessControl.can(action);
+
+		expect(redacted.records[0].parameters).toBeNull();
+	});
+
+	it("leaves redacted values out of the messages", () => {
+		const editor = createRole("EDITOR");
+		const records: IAuditRecord[] = [];
+		const accessControl = createAccessControl({
+			audit: {
+				redact: ["identifier"],
+				sinks: [(record) => records.push(record)],
+			},
+			roles: [editor],
+		});
+
+		createMenuPermission(editor, [{ identifier: "main", list: ["home"] }]);
+		accessControl.can(
+			createMenuAccessAction("EDITOR", {
+				identifier: "patient-1234-records",
+				menu: ["home"],
+			}),
+		);
+
+		expect(records[0].message).toBe(
+			"No access permission for menu '[REDACTED]'",
+		);
+		expect(JSON.stringify(records)).not.toContain("patient-1234-records");
+	});
+
+	it("keeps the latest records in a ring buffer", () => {
+		const sink = new RingBufferAuditSink(2);
+		const record = (roleCode: string) =>
+			({ roleCode }) as unknown as IAuditRecord;
+
+		["A", "B", "C"].forEach((roleCode) => {
+			sink.write(record(roleCode));
+		});
+
+		expect(sink.getRecords()).toEqual([record("B"), record("C")]);
+
+		sink.clear();
+
+		expect(sink.getRecords()).toEqual([]);
+		expect(() => new RingBufferAuditSink(0)).toThrow(
+			"buffer capacity must be a positive integer: 0",
+		);
+	});
+
+	it("writes records as newline-delimited JSON", () => {
+		const chunks: string[] = [];
+		const { accessControl } = createAuditedAccessControl();
+		const sink = new StreamAuditSink({ write: (chunk) => chunks.push(chunk) });
+
+		createAccessControl({
+			audit: { sinks: [sink] },
+			roles: accessControl.getRoles(),
+		}).can(createRouteAccessAction("EDITOR", { route: "/home" }));
+
+		expect(chunks).toHaveLength(1);
+		expect(chunks[0].endsWith("\n")).toBe(true);
+		expect(JSON.parse(chunks[0])).toMatchObject({
+			outcome: "granted",
+			parameters: { route: "/home" },
+		});
+	});
+});
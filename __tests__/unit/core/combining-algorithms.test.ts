@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import {
+	combinePermissionResults,
+	type IPermissionResult,
+	PermissionMessage,
+} from "../../../src/core";
+import { createRole, createRoutePermission } from "../../../src";
+
+describe("combinePermissionResults", () => {
+	const role = createRole("ADMIN");
+	const permit: IPermissionResult = {
+		permission: createRoutePermission(role, []),
+	};
+	const deny: IPermissionResult = {
+		message: new PermissionMessage({ status: "failed" }),
+		permission: createRoutePermission(role, []),
+	};
+	const results = [permit, deny];
+
+	it("should let any denial win with deny-overrides", () => {
+		expect(combinePermissionResults(results, "deny-overrides")).toBe(deny);
+		expect(combinePermissionResults([permit], "deny-overrides")).toBe(permit);
+	});
+
+	it("should let any permit win with permit-overrides", () => {
+		expect(combinePermissionResults(results, "permit-overrides")).toBe(permit);
+		expect(combinePermissionResults([deny], "permit-overrides")).toBe(deny);
+	});
+
+	it("should pick the first or last result with first-applicable and last-applicable", () => {
+		expect(combinePermissionResults(results, "first-applicable")).toBe(permit);
+		expect(combinePermissionResults(results, "last-applicable")).toBe(deny);
+	});
+
+	it("should return undefined when there is no result", () => {
+		expect(combinePermissionResults([], "deny-overrides")).toBeUndefined();
+	});
+});
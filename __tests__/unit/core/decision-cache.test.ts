@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { DecisionCache } from "../../../src/core";
+
+describe("DecisionCache", () => {
+	it("should evict the least recently used value", () => {
+		const cache = new DecisionCache<number>({ maxSize: 2 });
+
+		cache.set("a", 1);
+		cache.set("b", 2);
+		expect(cache.get("a")).toBe(1);
+		cache.set("c", 3);
+
+		expect(cache.get("b")).toBeUndefined();
+		expect(cache.get("a")).toBe(1);
+		expect(cache.get("c")).toBe(3);
+		expect(cache.getStats()).toEqual({
+			evictions: 1,
+			hits: 3,
+			invalidations: 0,
+			maxSize: 2,
+			misses: 1,
+			size: 2,
+		});
+	});
+
+	it("should count invalidations when cleared", () => {
+		const cache = new DecisionCache<number>();
+
+		cache.clear();
+		cache.set("a", 1);
+		cache.clear();
+
+		expect(cache.getStats()).toMatchObject({
+			invalidations: 1,
+			maxSize: 1000,
+			size: 0,
+		});
+	});
+
+	it("should reject an invalid size", () => {
+		expect(() => new DecisionCache({ maxSize: 0 })).toThrow(
+			"cache size must be a positive integer: 0",
+		);
+	});
+});
@@ -0,0 +1,133 @@
+// cspell:ignore Accès Aucun interdit introuvable Locataire refusé Rôle
+
+import { describe, expect, it, vi } from "vitest";
+import {
+	createAccessControl,
+	createDropdownAccessAction,
+	createDropdownPermission,
+	createRole,
+	createRouteAccessAction,
+	createRoutePermission,
+	defaultMessages,
+	formatMessage,
+	getLocaleChain,
+	getRegisteredLocales,
+	registerLocale,
+	TenantAccessControl,
+} from "../../../src";
+
+registerLocale("fr", {
+	listDenied: "Aucun accès à {type} '{identifier}'",
+	roleNotFound: "Rôle {roleCode} introuvable.",
+	routeDenied: "Accès à {route} refusé",
+	tenantNotFound: "Locataire {tenantId} introuvable.",
+});
+registerLocale("fr-CA", { routeDenied: "Accès à {route} interdit" });
+registerLocale("fr-BE", {}, { fallback: "fr-CA" });
+
+describe("Message catalog", () => {
+	it("should interpolate parameters into the built-in English messages", () => {
+		expect(
+			formatMessage("listDenied", { identifier: "status", type: "dropdown" }),
+		).toBe("No access permission for dropdown 'status'");
+		expect(formatMessage("componentDenied")).toBe(
+			defaultMessages.componentDenied,
+		);
+	});
+
+	it("should look messages up along the fallback chain of the locale", () => {
+		expect(getLocaleChain("fr-BE")).toEqual(["fr-BE", "fr-CA", "fr", "en"]);
+		expect(getLocaleChain(["de-CH", "fr"])).toEqual([
+			"de-CH",
+			"de",
+			"fr",
+			"en",
+		]);
+		expect(formatMessage("routeDenied", { route: "/admin" }, "fr-BE")).toBe(
+			"Accès à /admin interdit",
+		);
+		expect(formatMessage("roleNotFound", { roleCode: "GUEST" }, "fr-BE")).toBe(
+			"Rôle GUEST introuvable.",
+		);
+		expect(formatMessage("noPermissionForType", {}, "fr-BE")).toBe(
+			"No matching permissions found.",
+		);
+		expect(getRegisteredLocales()).toEqual(
+			expect.arrayContaining(["fr", "fr-BE", "fr-CA"]),
+		);
+	});
+
+	it("should format the messages of decisions in the locale of the access control", () => {
+		const editorRole = createRole("EDITOR");
+		const accessControl = createAccessControl({
+			cache: true,
+			locale: "fr",
+			roles: [editorRole],
+		});
+
+		createRoutePermission(editorRole, [{ route: "/home" }]);
+		createDropdownPermission(editorRole, [
+			{ identifier: "status", list: ["draft"] },
+		]);
+
+		const visitAdmin = createRouteAccessAction("EDITOR", { route: "/admin" });
+
+		expect(accessControl.decide(visitAdmin).message).toMatchObject({
+			code: "NO_MATCHING_RULE",
+			message: "Accès à /admin refusé",
+		});
+		expect(
+			accessControl.decide(
+				createDropdownAccessAction("EDITOR", {
+					dropdown: ["high"],
+					identifier: "priority",
+				}),
+			).message.message,
+		).toBe("Aucun accès à dropdown 'priority'");
+		expect(
+			accessControl.explain(createRouteAccessAction("GUEST", { route: "/" }))
+				.decision.message.message,
+		).toBe("Rôle GUEST introuvable.");
+
+		accessControl.setLocale(["fr-CA", "fr"]);
+
+		expect(accessControl.decide(visitAdmin).message.message).toBe(
+			"Accès à /admin interdit",
+		);
+		expect(accessControl.getCacheStats()).toMatchObject({ hits: 1 });
+	});
+
+	it("should publish an event when the locale of the access control changes", () => {
+		const accessControl = createAccessControl({
+			roles: [createRole("EDITOR")],
+		});
+		const listener = vi.fn();
+		const version = accessControl.getSnapshot();
+
+		accessControl.on("localeChanged", listener);
+		accessControl.setLocale("fr");
+
+		expect(listener).toHaveBeenCalledWith({
+			locale: "fr",
+			type: "localeChanged",
+		});
+		expect(accessControl.getSnapshot()).toBe(version + 1);
+		expect(accessControl.getLocale()).toBe("fr");
+	});
+
+	it("should format the messages of tenants in the locale of the base policy", () => {
+		const tenants = new TenantAccessControl(
+			createAccessControl({ locale: "fr", roles: [createRole("EDITOR")] }),
+		);
+		const visit = (tenantId: string) =>
+			tenants.decide(
+				createRouteAccessAction("EDITOR", { route: "/home" }, { tenantId }),
+			).message.message;
+
+		tenants.addTenant("acme", [], []);
+
+		expect(visit("globex")).toBe("Locataire globex introuvable.");
+		expect(visit("acme")).toBe("No matching permissions found.");
+		expect(tenants.getTenant("acme")!.getLocale()).toBe("fr");
+	});
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { PermissionMessage } from "../../../src/core";
+import { Action, PermissionMessage } from "../../../src/core";
 
 describe("PermissionMessage", () => {
   it("should create with correct properties", () => {
@@ -10,4 +10,31 @@ describe("PermissionMessage", () => {
     expect(message.status).toBe("failed");
     expect(message.message).toBe("Test error");
   });
+
+  it("should default the code to the status", () => {
+    expect(new PermissionMessage({ status: "success" })).toMatchObject({
+      code: "ALLOWED",
+      details: {},
+    });
+    expect(new PermissionMessage({ status: "failed" }).code).toBe("DENIED");
+  });
+
+  it("should carry the requested identifier of its action", () => {
+    const action = new Action("EDITOR", "component", {
+      action: "edit",
+      identifier: "article",
+    });
+
+    expect(
+      new PermissionMessage({ action, code: "TYPE_MISMATCH", status: "failed" })
+        .details,
+    ).toEqual({ identifier: "article" });
+    expect(
+      new PermissionMessage({
+        action,
+        details: { identifier: "comment" },
+        status: "failed",
+      }).details,
+    ).toEqual({ identifier: "comment" });
+  });
 });
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from "vitest";
+import { Group, PolicyEventEmitter, Role } from "../../../src/core";
+
+describe("PolicyEventEmitter", () => {
+	it("should emit events to the subscribed listeners", () => {
+		const emitter = new PolicyEventEmitter();
+		const listener = vi.fn();
+		const role = new Role("ADMIN");
+
+		const unsubscribe = emitter.subscribe(listener);
+		emitter.emit({ role, type: "roleAdded" });
+		unsubscribe();
+		emitter.emit({ role, type: "roleRemoved" });
+
+		expect(listener).toHaveBeenCalledOnce();
+		expect(listener).toHaveBeenCalledWith({ role, type: "roleAdded" });
+	});
+
+	it("should not emit events to unsubscribed listeners", () => {
+		const emitter = new PolicyEventEmitter();
+		const listener = vi.fn();
+
+		emitter.subscribe(listener);
+		emitter.unsubscribe(listener);
+		emitter.emit({ group: new Group("MAIN"), type: "groupAdded" });
+
+		expect(listener).not.toHaveBeenCalled();
+	});
+});
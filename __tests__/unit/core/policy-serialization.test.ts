@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+	AccessControl,
+	createAccessControl,
+	createComponentAccessAction,
+	createComponentPermission,
+	createDropdownAccessAction,
+	createDropdownPermission,
+	createGroup,
+	createMenuAccessAction,
+	createMenuPermission,
+	createRole,
+	createRouteAccessAction,
+	createRoutePermission,
+	decodeValue,
+	encodeValue,
+	type IPolicyDocument,
+} from "../../../src";
+
+describe("Policy serialization", () => {
+	it("should encode and decode regular expressions losslessly", () => {
+		const encoded = encodeValue({ list: /^item\d$/giu, route: "/home" });
+
+		expect(encoded).toEqual({
+			list: { $regex: "^item\\d$", flags: "giu" },
+			route: "/home",
+		});
+
+		const decoded = decodeValue(JSON.parse(JSON.stringify(encoded))) as {
+			list: RegExp;
+		};
+
+		expect(decoded.list).toBeInstanceOf(RegExp);
+		expect(decoded.list.source).toBe("^item\\d$");
+		expect(decoded.list.flags).toBe("giu");
+	});
+
+	it("should drop undefined values and reject functions", () => {
+		expect(encodeValue({ exclude: undefined, route: "/" })).toEqual({
+			route: "/",
+		});
+		expect(() => encodeValue(() => true)).toThrow(
+			"value of type function can't be serialized",
+		);
+	});
+
+	it("should round-trip a policy with identical decisions", () => {
+		const base = createGroup("BASE");
+		const staff = createGroup("STAFF", base);
+		const auditors = createGroup("AUDITORS");
+		const editor = createRole("EDITOR");
+		const auditor = createRole("AUDITOR", { strict: true });
+
+		editor.assignGroup(staff);
+		editor.assignGroup(auditors);
+		auditor.assignGroup(auditors);
+
+		createRoutePermission(base, [{ route: /^\/public/ }]);
+		createRoutePermission(staff, [
+			{ route: /^\/admin/ },
+			{ exclude: true, route: "/admin/settings" },
+		]);
+		createComponentPermission(auditors, [
+			{ actions: ["view"], identifier: /^report/i },
+		]);
+		createMenuPermission(editor, [{ identifier: "main", list: /^item\d$/ }]);
+		createDropdownPermission(editor, [
+			{ identifier: "status", list: ["draft", "published"] },
+		]);
+
+		const accessControl = createAccessControl({
+			combiningAlgorithms: { navigation: "first-applicable" },
+			roles: [editor, auditor],
+		});
+		const restored = AccessControl.fromJSON(
+			JSON.stringify(accessControl.toJSON()),
+		);
+		const actions = ["EDITOR", "AUDITOR"].flatMap((code) => [
+			createRouteAccessAction(code, { route: "/public/home" }),
+			createRouteAccessAction(code, { route: "/admin/users" }),
+			createRouteAccessAction(code, { route: "/admin/settings" }),
+			createComponentAccessAction(code, {
+				action: "view",
+				identifier: "Reports",
+			}),
+			createComponentAccessAction(code, {
+				action: "edit",
+				identifier: "Reports",
+			}),
+			createMenuAccessAction(code, {
+				identifier: "main",
+				menu: ["item1", "other"],
+			}),
+			createDropdownAccessAction(code, {
+				dropdown: ["draft", "archived"],
+				identifier: "status",
+			}),
+		]);
+
+		actions.forEach((action) => {
+			const expected = accessControl.decide(action);
+			const actual = restored.decide(action);
+
+			expect(actual.status).toBe(expected.status);
+			expect(actual.message.message).toBe(expected.message.message);
+		});
+		expect(restored.getRoleByCode("AUDITOR")?.isStrict()).toBe(true);
+		expect(restored.getCombiningAlgorithm("navigation")).toBe(
+			"first-applicable",
+		);
+		expect(restored.toJSON()).toEqual(accessControl.toJSON());
+	});
+
+	it("should keep the role config", () => {
+		const accessControl = new AccessControl([], []);
+		const role = createRole("ADMIN");
+
+		accessControl.addRole(role);
+
+		const document = accessControl.toJSON();
+
+		document.roles[0].config = { theme: "dark" };
+
+		expect(
+			AccessControl.fromJSON(document).getRoleByCode("ADMIN")?.getConfig(),
+		).toEqual({ theme: "dark" });
+	});
+
+	it("should keep the validity of rules and permissions", () => {
+		const role = createRole("CONTRACTOR");
+
+		createRoutePermission(role, [
+			{
+				route: "/reports",
+				validUntil: new Date("2026-04-01T00:00:00Z"),
+				windows: [{ days: [1, 2, 3, 4, 5], from: "09:00", until: "18:00" }],
+			},
+		]).setValidity({ validFrom: "2026-01-01T00:00:00Z" });
+
+		const document = createAccessControl({ roles: [role] }).toJSON();
+
+		expect(document.roles[0].permissions).toEqual([
+			{
+				rules: [
+					{
+						route: "/reports",
+						validUntil: "2026-04-01T00:00:00.000Z",
+						windows: [{ days: [1, 2, 3, 4, 5], from: "09:00", until: "18:00" }],
+					},
+				],
+				type: "navigation",
+				validity: { validFrom: "2026-01-01T00:00:00Z" },
+			},
+		]);
+
+		const action = createRouteAccessAction("CONTRACTOR", { route: "/reports" });
+		const restore = (now: string) =>
+			AccessControl.fromJSON(document, { clock: () => new Date(now) });
+
+		// Mondays at 10:00 UTC
+		expect(restore("2025-12-29T10:00:00Z").can(action)).toBe(false);
+		expect(restore("2026-03-02T10:00:00Z").can(action)).toBe(true);
+		expect(restore("2026-04-06T10:00:00Z").can(action)).toBe(false);
+	});
+
+	it("should throw on unknown groups and permission types", () => {
+		const document: IPolicyDocument = {
+			groups: [],
+			roles: [{ code: "ADMIN", groups: ["MISSING"], permissions: [] }],
+			version: 1,
+		};
+
+		expect(() => AccessControl.fromJSON(document)).toThrow(
+			"group MISSING is not defined in the policy",
+		);
+		expect(() =>
+			AccessControl.fromJSON({
+				groups: [],
+				roles: [
+					{
+						code: "ADMIN",
+						groups: [],
+						permissions: [{ rules: [], type: "x" }],
+					},
+				],
+				version: 1,
+			}),
+		).toThrow("permission type x is not registered");
+	});
+});
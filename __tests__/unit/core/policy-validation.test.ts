@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+	AccessControl,
+	assertValidPolicy,
+	createAccessControl,
+	createGroup,
+	createMenuPermission,
+	createRole,
+	createRoutePermission,
+	PolicyValidationError,
+	validatePolicy,
+} from "../../../src";
+
+describe("Policy validation", () => {
+	it("should accept a serialized policy", () => {
+		const group = createGroup("STAFF");
+		const role = createRole("EDITOR");
+
+		role.assignGroup(group);
+		createRoutePermission(group, [{ route: /^\/admin/ }]);
+		createMenuPermission(role, [{ identifier: "main", list: ["home"] }]);
+
+		const document = createAccessControl({ roles: [role] }).toJSON();
+
+		expect(validatePolicy(JSON.parse(JSON.stringify(document)))).toEqual([]);
+	});
+
+	it("should report every error with its JSON pointer", () => {
+		const errors = validatePolicy({
+			groups: [
+				{ code: "BASE", inheritFrom: "MISSING", permissions: [] },
+				{
+					code: "STAFF",
+					permissions: [
+						{ rules: [{ identifier: "main", list: "home" }], type: "menu" },
+						{ rules: [{ list: ["home"] }], type: "dropdown" },
+					],
+				},
+			],
+			roles: [
+				{
+					code: "EDITOR",
+					groups: ["STAFF", "UNKNOWN"],
+					permissions: [
+						{ rules: [], type: "feature" },
+						{
+							rules: [
+								{ route: { $regex: "(", flags: "" }, typo: true },
+								{ condition: { eq: [{ ref: 1 }, 1] }, route: "/home" },
+								{ route: "/", validUntil: "tomorrow", windows: [{}] },
+							],
+							validity: { validFrom: true },
+							type: "navigation",
+						},
+					],
+				},
+			],
+			version: 1,
+		});
+
+		expect(errors).toEqual([
+			{
+				message: "group MISSING is not defined in the policy",
+				path: "/groups/0/inheritFrom",
+			},
+			{
+				message: "must be one of: regex, string-array",
+				path: "/groups/1/permissions/0/rules/0/list",
+			},
+			{
+				message: "is required",
+				path: "/groups/1/permissions/1/rules/0/identifier",
+			},
+			{
+				message: "group UNKNOWN is not defined in the policy",
+				path: "/roles/0/groups/1",
+			},
+			{
+				message: "permission type feature is not registered",
+				path: "/roles/0/permissions/0/type",
+			},
+			{
+				message: "must be one of: date",
+				path: "/roles/0/permissions/1/validity/validFrom",
+			},
+			{
+				message: "must be a valid regular expression",
+				path: "/roles/0/permissions/1/rules/0/route",
+			},
+			{
+				message: "is not a known property",
+				path: "/roles/0/permissions/1/rules/0/typo",
+			},
+			{
+				message: "must be a string",
+				path: "/roles/0/permissions/1/rules/1/condition/eq/0/ref",
+			},
+			{
+				message: "must be one of: date",
+				path: "/roles/0/permissions/1/rules/2/validUntil",
+			},
+			{
+				message: "must be a time as HH:MM",
+				path: "/roles/0/permissions/1/rules/2/windows/0/from",
+			},
+			{
+				message: "must be a time as HH:MM",
+				path: "/roles/0/permissions/1/rules/2/windows/0/until",
+			},
+		]);
+	});
+
+	it("should report document level errors", () => {
+		expect(validatePolicy(null)).toEqual([
+			{ message: "must be an object", path: "" },
+		]);
+		expect(
+			validatePolicy({
+				combiningAlgorithms: { "a/b": "deny-all" },
+				groups: [{ code: "A" }, { code: "A", permissions: [] }],
+				roles: {},
+				version: 2,
+			}),
+		).toEqual([
+			{ message: "must be 1", path: "/version" },
+			{
+				message: "must be a combining algorithm",
+				path: "/combiningAlgorithms/a~1b",
+			},
+			{ message: "must be an array", path: "/roles" },
+			{ message: "duplicate code A", path: "/groups/1/code" },
+			{ message: "must be an array", path: "/groups/0/permissions" },
+		]);
+	});
+
+	it("should report inheritance cycles and strict roles in several groups", () => {
+		const errors = validatePolicy({
+			groups: [
+				{ code: "A", inheritFrom: "B", permissions: [] },
+				{ code: "B", inheritFrom: "A", permissions: [] },
+			],
+			roles: [{ code: "R", groups: ["A", "B"], permissions: [], strict: true }],
+			version: 1,
+		});
+
+		expect(errors.map(({ path }) => path)).toEqual([
+			"/groups/0/inheritFrom",
+			"/groups/1/inheritFrom",
+			"/roles/0/groups",
+		]);
+		expect(errors[0].message).toBe(
+			"group inheritance cycle detected: A -> B -> A",
+		);
+	});
+
+	it("should throw every error when loading an invalid policy", () => {
+		const document = {
+			groups: [],
+			roles: [{ code: "R", groups: ["A"], permissions: [] }],
+			version: 1,
+		} as const;
+
+		expect(() => assertValidPolicy(document)).toThrow(PolicyValidationError);
+
+		try {
+			AccessControl.fromJSON(JSON.stringify({ ...document, version: 0 }));
+		} catch (error) {
+			expect(error).toBeInstanceOf(PolicyValidationError);
+			expect((error as PolicyValidationError).errors).toHaveLength(2);
+			expect((error as PolicyValidationError).message).toBe(
+				"invalid policy document:\n/version: must be 1\n/roles/0/groups/0: group A is not defined in the policy",
+			);
+		}
+
+		expect.assertions(4);
+	});
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+	Action,
+	type ConditionExpression,
+	checkRuleCondition,
+	evaluateCondition,
+	validateCondition,
+} from "../../../src/core";
+
+describe("rule conditions", () => {
+	const action = new Action(
+		"editor",
+		"component",
+		{ action: "edit", identifier: "article" },
+		{
+			context: {
+				environment: { hour: 10 },
+				resource: { ownerId: "u1", status: "draft" },
+				subject: { department: "news", id: "u1" },
+			},
+		},
+	);
+
+	it("should evaluate declarative conditions", () => {
+		const isOwner: ConditionExpression = {
+			eq: [{ ref: "subject.id" }, { ref: "resource.ownerId" }],
+		};
+
+		expect(evaluateCondition(isOwner, action)).toBe(true);
+		expect(
+			evaluateCondition(
+				{
+					and: [
+						isOwner,
+						{ in: [{ ref: "resource.status" }, ["draft", "review"]] },
+						{ gte: [{ ref: "environment.hour" }, 9] },
+						{ not: { eq: [{ ref: "parameters.action" }, "delete"] } },
+					],
+				},
+				action,
+			),
+		).toBe(true);
+		expect(
+			evaluateCondition(
+				{
+					or: [
+						{ lt: [{ ref: "environment.hour" }, 9] },
+						{ ne: [{ ref: "roleCode" }, "editor"] },
+					],
+				},
+				action,
+			),
+		).toBe(false);
+	});
+
+	it("should not match comparisons of missing or mismatched values", () => {
+		expect(
+			evaluateCondition({ gt: [{ ref: "environment.minute" }, 0] }, action),
+		).toBe(false);
+		expect(evaluateCondition({ lte: [{ ref: "subject.id" }, 1] }, action)).toBe(
+			false,
+		);
+		expect(
+			evaluateCondition({ eq: [{ ref: "resource.missing.id" }, null] }, action),
+		).toBe(false);
+	});
+
+	it("should not meet comparisons of references missing from the context", () => {
+		const anonymous = new Action("editor", "component", {
+			action: "edit",
+			identifier: "article",
+		});
+
+		expect(
+			evaluateCondition(
+				{ eq: [{ ref: "subject.id" }, { ref: "resource.ownerId" }] },
+				anonymous,
+			),
+		).toBe(false);
+		expect(
+			evaluateCondition({ ne: [{ ref: "subject.id" }, "u2"] }, anonymous),
+		).toBe(false);
+		expect(
+			evaluateCondition({ in: [{ ref: "subject.id" }, ["u1"]] }, anonymous),
+		).toBe(false);
+	});
+
+	it("should call predicates with the context and the action", () => {
+		expect(
+			evaluateCondition(
+				(context, { getRoleCode }) =>
+					context.subject?.department === "news" &&
+					getRoleCode.call(action) === "editor",
+				action,
+			),
+		).toBe(true);
+		expect(
+			checkRuleCondition({ identifier: "article" }, action),
+		).toBeUndefined();
+		expect(checkRuleCondition({ condition: () => false }, action)).toBe(false);
+	});
+
+	it("should validate serialized conditions", () => {
+		expect(
+			validateCondition({
+				and: [{ eq: [{ ref: "subject.id" }, 1] }, { not: { in: [1, [1]] } }],
+			}),
+		).toEqual([]);
+		expect(
+			validateCondition(
+				{
+					and: [
+						{ eq: [{ ref: 1 }, 1] },
+						{ gt: [1] },
+						{ like: [1, 2] },
+						{ eq: [1, 1], ne: [1, 2] },
+					],
+					or: [],
+				},
+				"/condition",
+			),
+		).toEqual([
+			{
+				message: "must be an object with a single operator",
+				path: "/condition",
+			},
+		]);
+		expect(
+			validateCondition(
+				{
+					and: [
+						{ eq: [{ ref: 1 }, 1] },
+						{ gt: [1] },
+						{ like: [1, 2] },
+						{ or: {} },
+					],
+				},
+				"/condition",
+			),
+		).toEqual([
+			{ message: "must be a string", path: "/condition/and/0/eq/0/ref" },
+			{
+				message: "must be an array of two operands",
+				path: "/condition/and/1/gt",
+			},
+			{ message: "unknown operator like", path: "/condition/and/2" },
+			{
+				message: "must be an array of conditions",
+				path: "/condition/and/3/or",
+			},
+		]);
+	});
+});
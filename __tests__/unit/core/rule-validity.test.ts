@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+	getValidity,
+	getValidityStatus,
+	validateTimeWindows,
+} from "../../../src/core";
+
+describe("rule validity", () => {
+	it("should compare the time with the validity period", () => {
+		const validity = {
+			validFrom: "2026-01-01T00:00:00Z",
+			validUntil: new Date("2026-02-01T00:00:00Z"),
+		};
+
+		expect(getValidityStatus(validity, new Date("2025-12-31T23:59:59Z"))).toBe(
+			"pending",
+		);
+		expect(getValidityStatus(validity, new Date("2026-01-15T00:00:00Z"))).toBe(
+			"active",
+		);
+		expect(getValidityStatus(validity, new Date("2026-02-01T00:00:00Z"))).toBe(
+			"expired",
+		);
+	});
+
+	it("should restrict the period to recurring windows in a timezone", () => {
+		const validity = {
+			windows: [
+				{
+					days: [1, 2, 3, 4, 5],
+					from: "09:00",
+					until: "18:00",
+					utcOffset: "+02:00",
+				},
+			],
+		};
+
+		// Monday 2026-10-19, 09:30 at UTC+2
+		expect(getValidityStatus(validity, new Date("2026-10-19T07:30:00Z"))).toBe(
+			"active",
+		);
+		expect(getValidityStatus(validity, new Date("2026-10-19T16:00:00Z"))).toBe(
+			"inactive",
+		);
+		// Saturday 2026-10-24, 10:00 at UTC+2
+		expect(getValidityStatus(validity, new Date("2026-10-24T08:00:00Z"))).toBe(
+			"inactive",
+		);
+	});
+
+	it("should close overnight windows on the next day", () => {
+		const validity = {
+			windows: [{ days: [5], from: "22:00", until: "02:00" }],
+		};
+
+		// Friday 2026-10-23 at 23:00, then Saturday at 01:00 and 03:00
+		expect(getValidityStatus(validity, new Date("2026-10-23T23:00:00Z"))).toBe(
+			"active",
+		);
+		expect(getValidityStatus(validity, new Date("2026-10-24T01:00:00Z"))).toBe(
+			"active",
+		);
+		expect(getValidityStatus(validity, new Date("2026-10-24T03:00:00Z"))).toBe(
+			"inactive",
+		);
+		expect(getValidity({ route: "/home" })).toBeUndefined();
+	});
+
+	it("should validate time windows", () => {
+		expect(validateTimeWindows([{ from: "09:00", until: "24:00" }])).toEqual(
+			[],
+		);
+		expect(
+			validateTimeWindows(
+				[
+					{
+						days: [7],
+						from: "9am",
+						until: "18:00",
+						utcOffset: "2",
+						zone: "CET",
+					},
+				],
+				"/windows",
+			),
+		).toEqual([
+			{ message: "must be a time as HH:MM", path: "/windows/0/from" },
+			{
+				message: "must be an array of days from 0 to 6",
+				path: "/windows/0/days",
+			},
+			{
+				message: "must be an offset as +HH:MM or -HH:MM",
+				path: "/windows/0/utcOffset",
+			},
+			{ message: "is not a known property", path: "/windows/0/zone" },
+		]);
+		expect(validateTimeWindows({})).toEqual([
+			{ message: "must be an array of time windows", path: "" },
+		]);
+	});
+});
@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import {
+	createAccessControl,
+	createComponentAccessAction,
+	createComponentPermission,
+	createGroup,
+	createRole,
+	createRouteAccessAction,
+	createRoutePermission,
+	TenantAccessControl,
+} from "../../../src";
+
+/**
+ * Create a base policy where editors of the staff group can visit /home and view articles.
+ * @returns {object} The tenant access control and the staff group.
+ */
+function createTenants() {
+	const staff = createGroup("STAFF");
+	const editor = createRole("EDITOR");
+
+	editor.assignGroup(staff);
+	createRoutePermission(staff, [{ route: "/home" }]);
+	createComponentPermission(editor, [
+		{ actions: ["view"], identifier: "article" },
+	]);
+
+	return {
+		staff,
+		tenants: new TenantAccessControl(
+			createAccessControl({
+				combiningAlgorithm: "permit-overrides",
+				roles: [editor],
+			}),
+		),
+	};
+}
+
+describe("TenantAccessControl", () => {
+	const editArticle = (tenantId?: string) =>
+		createComponentAccessAction(
+			"EDITOR",
+			{ action: "edit", identifier: "article" },
+			{ tenantId },
+		);
+	const visit = (roleCode: string, route: string, tenantId?: string) =>
+		createRouteAccessAction(roleCode, { route }, { tenantId });
+
+	it("should overlay the base policy with the roles and rules of each tenant", () => {
+		const { staff, tenants } = createTenants();
+		const acmeEditor = createRole("EDITOR");
+		const auditor = createRole("AUDITOR");
+		const auditors = createGroup("AUDITORS", staff);
+
+		createComponentPermission(acmeEditor, [
+			{ actions: ["edit"], identifier: "article" },
+		]);
+		auditor.assignGroup(auditors);
+		createRoutePermission(auditors, [{ route: "/audit" }]);
+
+		const acme = tenants.addTenant("acme", [acmeEditor, auditor], [auditors]);
+
+		tenants.addTenant("globex");
+
+		expect(tenants.getTenantIds()).toEqual(["acme", "globex"]);
+		expect(acme.getCombiningAlgorithm()).toBe("permit-overrides");
+		expect(
+			tenants.can(
+				createComponentAccessAction(
+					"EDITOR",
+					{ action: "view", identifier: "article" },
+					{ tenantId: "acme" },
+				),
+			),
+		).toBe(true);
+		expect(tenants.can(editArticle("acme"))).toBe(true);
+		expect(tenants.can(editArticle("globex"))).toBe(false);
+		expect(tenants.can(editArticle())).toBe(false);
+		expect(tenants.can(visit("AUDITOR", "/home", "acme"))).toBe(true);
+		expect(tenants.can(visit("AUDITOR", "/audit", "acme"))).toBe(true);
+		expect(
+			tenants.decide(visit("AUDITOR", "/audit", "globex")).message.message,
+		).toBe("Role not found.");
+		expect(
+			tenants.decide(visit("AUDITOR", "/audit", "initech")).message.message,
+		).toBe("Tenant not found.");
+		expect(() => tenants.addTenant("acme")).toThrow(
+			"tenant acme already exists",
+		);
+	});
+
+	it("should invalidate the decisions of tenants when the base policy changes", () => {
+		const { staff, tenants } = createTenants();
+		const acme = tenants.addTenant("acme", [], [], { cache: true });
+		const events: string[] = [];
+
+		acme.subscribe(({ type }) => events.push(type));
+
+		expect(tenants.can(visit("EDITOR", "/news", "acme"))).toBe(false);
+
+		createRoutePermission(staff, [{ route: "/news" }]);
+
+		expect(tenants.can(visit("EDITOR", "/news", "acme"))).toBe(true);
+		expect(events).toEqual(["permissionAssigned"]);
+
+		tenants.removeTenant("acme");
+
+		expect(tenants.getTenant("acme")).toBeUndefined();
+		expect(tenants.can(visit("EDITOR", "/news", "acme"))).toBe(false);
+	});
+
+	it("should clone the policy of a tenant without sharing its rules", () => {
+		const { staff, tenants } = createTenants();
+		const writers = createGroup("WRITERS", staff);
+		const writer = createRole("WRITER");
+
+		writer.assignGroup(writers);
+		createRoutePermission(writers, [{ route: "/drafts" }]);
+		tenants.addTenant("acme", [writer], [writers], {
+			combiningAlgorithms: { navigation: "first-applicable" },
+		});
+
+		const initech = tenants.cloneTenant("acme", "initech");
+
+		expect(tenants.can(visit("WRITER", "/drafts", "initech"))).toBe(true);
+		expect(tenants.can(visit("WRITER", "/home", "initech"))).toBe(true);
+		expect(initech.getCombiningAlgorithm("navigation")).toBe(
+			"first-applicable",
+		);
+		expect(initech.getRoleByCode("WRITER")?.getGroup()).not.toBe(writers);
+		expect(initech.getRoleByCode("WRITER")?.getGroup()?.getInheritFrom()).toBe(
+			staff,
+		);
+
+		initech
+			.getRoleByCode("WRITER")!
+			.getGroup()!
+			.getPermissions()[0]
+			.removeRule(() => true);
+
+		expect(tenants.can(visit("WRITER", "/drafts", "initech"))).toBe(false);
+		expect(tenants.can(visit("WRITER", "/drafts", "acme"))).toBe(true);
+		expect(() => tenants.cloneTenant("globex", "umbrella")).toThrow(
+			"tenant globex doesn't exist",
+		);
+	});
+
+	it("should copy the delegations of a tenant that haven't expired", () => {
+		const { tenants } = createTenants();
+		const deputy = createRole("DEPUTY");
+		const acme = tenants.addTenant("acme", [deputy], [], {
+			clock: () => new Date("2024-05-01T00:00:00Z"),
+		});
+		const visitAsDeputy = (tenantId: string) =>
+			createRouteAccessAction(
+				"EDITOR",
+				{ route: "/home" },
+				{ actor: { mode: "delegation", roleCode: "DEPUTY" }, tenantId },
+			);
+
+		acme.delegate({ from: "EDITOR", to: "DEPUTY", types: ["navigation"] });
+		acme.delegate({
+			from: "EDITOR",
+			to: "DEPUTY",
+			validUntil: "2024-01-01T00:00:00Z",
+		});
+		tenants
+			.getBase()
+			.delegate({ from: "EDITOR", to: "DEPUTY", types: ["component"] });
+
+		const initech = tenants.cloneTenant("acme", "initech");
+
+		expect(initech.getDelegations()).toHaveLength(2);
+		expect(initech.getDelegations()[1]).toEqual({
+			from: "EDITOR",
+			to: "DEPUTY",
+			types: ["navigation"],
+		});
+		expect(initech.getDelegations()[1]).not.toBe(acme.getDelegations()[1]);
+		expect(tenants.can(visitAsDeputy("initech"))).toBe(true);
+
+		acme.revokeDelegation(acme.getDelegations()[1]);
+
+		expect(initech.getDelegations()).toHaveLength(2);
+	});
+});
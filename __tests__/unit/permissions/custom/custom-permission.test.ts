@@ -0,0 +1,242 @@
+import { describe, expect, expectTypeOf, it } from "vitest";
+import {
+	AccessControl,
+	type ComponentAccessPermission,
+	type ConditionExpression,
+	createAccessControl,
+	createGroup,
+	createRole,
+	CustomAccessPermission,
+	type DropdownAccessPermission,
+	getRegisteredPermissionTypes,
+	type MenuAccessPermission,
+	type PermissionMapOf,
+	registerPermissionType,
+	type RolePermissions,
+	type RouteAccessPermission,
+	validatePolicy,
+} from "../../../../src";
+
+interface IFeatureRule {
+	condition?: ConditionExpression;
+	exclude?: boolean;
+	flag: RegExp | string;
+}
+
+const featureType = registerPermissionType({
+	matchRule: (rule: IFeatureRule, { flag }: { flag: string }) =>
+		rule.flag instanceof RegExp ? rule.flag.test(flag) : rule.flag === flag,
+	parametersSchema: { flag: { kinds: ["string"] } },
+	ruleSchema: {
+		exclude: { kinds: ["boolean"], optional: true },
+		flag: { kinds: ["regex", "string"] },
+	},
+	type: "feature",
+});
+
+describe("CustomAccessPermission", () => {
+	it("should decide actions of a registered type", () => {
+		const betaTesters = createGroup("BETA_TESTERS");
+		const adminRole = createRole("ADMIN");
+		const accessControl = createAccessControl({ roles: [adminRole] });
+
+		adminRole.assignGroup(betaTesters);
+		featureType.createPermission(betaTesters, [{ flag: /^beta-/ }]);
+		featureType.createPermission(adminRole, [
+			{ exclude: true, flag: "beta-billing" },
+		]);
+
+		expect(
+			accessControl.can(
+				featureType.createAction("ADMIN", { flag: "beta-chat" }),
+			),
+		).toBe(true);
+		expect(
+			accessControl.decide(
+				featureType.createAction("ADMIN", { flag: "beta-billing" }),
+			).message.message,
+		).toBe("feature access is not allowed");
+		expect(
+			accessControl.can(featureType.createAction("ADMIN", { flag: "legacy" })),
+		).toBe(false);
+	});
+
+	it("should explain which rule matched", () => {
+		const adminRole = createRole("ADMIN");
+		const accessControl = createAccessControl({ roles: [adminRole] });
+		const permission = featureType.createPermission(adminRole, [
+			{ flag: "a" },
+			{ exclude: true, flag: "b" },
+			{ flag: "b" },
+		]);
+
+		expect(permission).toBeInstanceOf(CustomAccessPermission);
+		expect(
+			permission
+				.explainRules(featureType.createAction("ADMIN", { flag: "b" }))
+				.map(({ excluded, matched, skipped }) => [matched, excluded, skipped]),
+		).toEqual([
+			[false, false, false],
+			[true, true, false],
+			[false, false, true],
+		]);
+		expect(
+			accessControl.can(featureType.createAction("ADMIN", { flag: "b" })),
+		).toBe(false);
+	});
+
+	it("should validate the parameters of actions", () => {
+		expect(featureType.validateParameters({ flag: 1 })).toEqual([
+			{ message: "must be one of: string", path: "/flag" },
+		]);
+		expect(() =>
+			featureType.createAction("ADMIN", {} as { flag: string }),
+		).toThrow("invalid parameters for feature action: /flag: is required");
+	});
+
+	it("should be serialized, validated and listed like built-in types", () => {
+		const adminRole = createRole("ADMIN");
+		const accessControl = createAccessControl({ roles: [adminRole] });
+
+		featureType.createPermission(adminRole, [{ flag: /^beta-/i }]);
+
+		const document = JSON.parse(JSON.stringify(accessControl));
+		const restored = AccessControl.fromJSON(document);
+
+		expect(document.roles[0].permissions).toEqual([
+			{ rules: [{ flag: { $regex: "^beta-", flags: "i" } }], type: "feature" },
+		]);
+		expect(
+			restored.can(featureType.createAction("ADMIN", { flag: "BETA-chat" })),
+		).toBe(true);
+
+		document.roles[0].permissions[0].rules[0] = { flag: true };
+
+		expect(validatePolicy(document)).toEqual([
+			{
+				message: "must be one of: regex, string",
+				path: "/roles/0/permissions/0/rules/0/flag",
+			},
+		]);
+		expect(getRegisteredPermissionTypes()).toEqual(
+			expect.arrayContaining(["component", "feature", "navigation"]),
+		);
+	});
+
+	it("should evaluate rule conditions against the context of its actions", () => {
+		const adminRole = createRole("ADMIN");
+		const accessControl = createAccessControl({ roles: [adminRole] });
+
+		featureType.createPermission(adminRole, [
+			{
+				condition: { eq: [{ ref: "subject.plan" }, "pro"] },
+				flag: "beta-chat",
+			},
+		]);
+
+		const useChat = (plan?: string) =>
+			featureType.createAction(
+				"ADMIN",
+				{ flag: "beta-chat" },
+				plan ? { context: { subject: { plan } }, tenantId: "acme" } : {},
+			);
+
+		expect(accessControl.can(useChat("pro"))).toBe(true);
+		expect(useChat("pro").getTenantId()).toBe("acme");
+		expect(accessControl.can(useChat("free"))).toBe(false);
+		expect(accessControl.can(useChat())).toBe(false);
+	});
+
+	it("should validate rules with the registered rule validator", () => {
+		registerPermissionType({
+			matchRule: (
+				rule: { max: number; min: number },
+				{ size }: { size: number },
+			) => size >= rule.min && size <= rule.max,
+			ruleSchema: { max: { kinds: ["string"] }, min: { kinds: ["string"] } },
+			type: "quota",
+			validateRule: (rule) => {
+				const { max, min } = rule as { max: string; min: string };
+
+				return Number(min) > Number(max)
+					? [{ message: "must not exceed max", path: "/min" }]
+					: [];
+			},
+		});
+
+		const document = {
+			groups: [],
+			roles: [
+				{
+					code: "ADMIN",
+					groups: [],
+					permissions: [
+						{
+							rules: [
+								{ max: "10", min: "1" },
+								{ max: "1", min: "10" },
+								{ max: 1, min: "10" },
+							],
+							type: "quota",
+						},
+					],
+				},
+			],
+			version: 1,
+		};
+
+		expect(validatePolicy(document)).toEqual([
+			{
+				message: "must not exceed max",
+				path: "/roles/0/permissions/0/rules/1/min",
+			},
+			{
+				message: "must be one of: string",
+				path: "/roles/0/permissions/0/rules/2/max",
+			},
+		]);
+	});
+
+	it("should use the registered rule serializer", () => {
+		const scopeType = registerPermissionType({
+			deserializeRule: (value) => ({ scopes: (value as string).split(" ") }),
+			matchRule: (rule: { scopes: string[] }, { scope }: { scope: string }) =>
+				rule.scopes.includes(scope),
+			serializeRule: (rule) => rule.scopes.join(" "),
+			type: "scope",
+		});
+		const adminRole = createRole("ADMIN");
+
+		scopeType.createPermission(adminRole, [{ scopes: ["read", "write"] }]);
+
+		const document = createAccessControl({ roles: [adminRole] }).toJSON();
+
+		expect(document.roles[0].permissions[0].rules).toEqual(["read write"]);
+		expect(
+			AccessControl.fromJSON(document).can(
+				scopeType.createAction("ADMIN", { scope: "write" }),
+			),
+		).toBe(true);
+	});
+
+	it("should type maps of registered permission types", () => {
+		expectTypeOf<PermissionMapOf<typeof featureType>>().toEqualTypeOf<{
+			feature: CustomAccessPermission<
+				"feature",
+				IFeatureRule,
+				{ flag: string }
+			>;
+		}>();
+	});
+
+	it("should keep the permission types added to the map optional in role permissions", () => {
+		expectTypeOf<{
+			component: ComponentAccessPermission;
+			menu: MenuAccessPermission;
+			navigation: RouteAccessPermission;
+		}>().toExtend<RolePermissions>();
+		expectTypeOf<RolePermissions["dropdown"]>().toEqualTypeOf<
+			DropdownAccessPermission | undefined
+		>();
+	});
+});
@@ -112,4 +112,27 @@ describe("RouteAccessPermission Class", () => {
 		);
 		expect(mockSuccess).not.toHaveBeenCalled();
 	});
+	it("should only apply to the routes matched by its rules", () => {
+		const adminRole = createRole("ADMIN");
+		const permission = createRoutePermission(adminRole, [
+			{ route: /^\/admin/ },
+			{ route: "/settings", exclude: true },
+		]);
+
+		expect(
+			permission.isApplicable(
+				createRouteAccessAction(adminRole.getCode(), { route: "/admin/users" }),
+			),
+		).toBe(true);
+		expect(
+			permission.isApplicable(
+				createRouteAccessAction(adminRole.getCode(), { route: "/settings" }),
+			),
+		).toBe(true);
+		expect(
+			permission.isApplicable(
+				createRouteAccessAction(adminRole.getCode(), { route: "/profile" }),
+			),
+		).toBe(false);
+	});
 });
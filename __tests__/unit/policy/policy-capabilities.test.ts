@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+	createAccessControl,
+	createMenuPermission,
+	createRole,
+	getRoleCapabilities,
+	parsePolicy,
+} from "../../../src";
+
+const source = `
+group viewers
+group editors inherits viewers
+role editor in editors
+role intern in viewers
+
+allow viewers navigation /home
+allow viewers navigation /articles/**
+deny editors navigation /articles/drafts
+allow editors component billing-panel view, edit
+deny intern component billing-panel edit
+allow intern menu main home, settings, admin
+deny intern menu main admin
+`;
+
+describe("Role capabilities", () => {
+	it("should enumerate the routes and components named by the rules and catalogs", () => {
+		const capabilities = getRoleCapabilities(parsePolicy(source), "editor", {
+			catalogs: {
+				menus: { main: ["home"] },
+				routes: ["/articles/42", "/admin"],
+			},
+		});
+
+		expect(capabilities).toEqual({
+			components: { "billing-panel": ["view", "edit"] },
+			dropdowns: {},
+			menus: { main: [] },
+			roleCode: "editor",
+			routes: {
+				allowed: ["/articles/42", "/home"],
+				denied: ["/admin", "/articles/drafts"],
+			},
+		});
+	});
+
+	it("should take exclude rules into account for list items and component actions", () => {
+		const capabilities = getRoleCapabilities(parsePolicy(source), "intern");
+
+		expect(capabilities.menus).toEqual({ main: ["home", "settings"] });
+		expect(capabilities.components).toEqual({ "billing-panel": [] });
+		expect(capabilities.routes).toEqual({ allowed: ["/home"], denied: [] });
+	});
+
+	it("should evaluate list items with the clock of the access control", () => {
+		const editor = createRole("EDITOR");
+
+		createMenuPermission(editor, [
+			{ identifier: "main", list: ["home"] },
+			{
+				identifier: "main",
+				list: ["admin"],
+				validUntil: "2028-01-01T00:00:00Z",
+			},
+		]);
+
+		const capabilities = getRoleCapabilities(
+			createAccessControl({
+				clock: () => new Date("2030-01-01T00:00:00Z"),
+				roles: [editor],
+			}),
+			"EDITOR",
+		);
+
+		expect(capabilities.menus).toEqual({ main: ["home"] });
+	});
+
+	it("should throw if the role doesn't exist", () => {
+		expect(() => getRoleCapabilities(parsePolicy(source), "guest")).toThrow(
+			"role guest doesn't exist",
+		);
+	});
+});
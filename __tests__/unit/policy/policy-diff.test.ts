@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+	createRouteAccessAction,
+	diffPolicies,
+	parsePolicy,
+	parsePolicyDocument,
+} from "../../../src";
+
+const before = `
+group viewers
+group editors inherits viewers
+group legacy
+role editor in editors
+role intern in viewers
+
+allow viewers navigation /articles
+allow editors component billing-panel view
+allow intern menu main home, settings
+`;
+
+const after = `
+combining permit-overrides
+combining menu first-applicable
+
+group base
+group viewers inherits base
+group editors inherits viewers
+role editor in editors
+role intern in viewers
+role auditor in base
+
+allow base navigation /status
+allow editors component billing-panel view, edit
+allow intern menu main home
+`;
+
+describe("Policy diff", () => {
+	it("should report structural changes", () => {
+		const diff = diffPolicies(parsePolicy(before), parsePolicyDocument(after));
+
+		expect(diff.groups).toEqual({ added: ["base"], removed: ["legacy"] });
+		expect(diff.roles).toEqual({ added: ["auditor"], removed: [] });
+		expect(diff.combiningAlgorithms).toEqual([
+			{ from: "deny-overrides", to: "permit-overrides" },
+			{ from: undefined, permissionType: "menu", to: "first-applicable" },
+		]);
+		expect(diff.inheritance).toEqual([
+			{ code: "viewers", from: [], kind: "group", to: ["base"] },
+		]);
+		expect(diff.rules).toEqual([
+			{
+				change: "removed",
+				rule: { route: "/articles" },
+				target: "viewers",
+				targetKind: "group",
+				type: "navigation",
+			},
+			{
+				change: "modified",
+				previous: { actions: ["view"], identifier: "billing-panel" },
+				rule: { actions: ["view", "edit"], identifier: "billing-panel" },
+				target: "editors",
+				targetKind: "group",
+				type: "component",
+			},
+			{
+				change: "added",
+				rule: { route: "/status" },
+				target: "base",
+				targetKind: "group",
+				type: "navigation",
+			},
+			{
+				change: "modified",
+				previous: { identifier: "main", list: ["home", "settings"] },
+				rule: { identifier: "main", list: ["home"] },
+				target: "intern",
+				targetKind: "role",
+				type: "menu",
+			},
+		]);
+	});
+
+	it("should report the actions whose decision flips", () => {
+		const diff = diffPolicies(parsePolicy(before), parsePolicy(after));
+
+		expect(
+			diff.decisions.map(({ action, after, before }) => [
+				action.getRoleCode(),
+				action.getType(),
+				action.getParameters(),
+				before.status,
+				after.status,
+			]),
+		).toEqual([
+			["editor", "navigation", { route: "/articles" }, "success", "failed"],
+			["intern", "navigation", { route: "/articles" }, "success", "failed"],
+			["editor", "navigation", { route: "/status" }, "failed", "success"],
+			["intern", "navigation", { route: "/status" }, "failed", "success"],
+			["auditor", "navigation", { route: "/status" }, "failed", "success"],
+			[
+				"editor",
+				"component",
+				{ action: "edit", identifier: "billing-panel" },
+				"failed",
+				"success",
+			],
+		]);
+	});
+
+	it("should only compare the given actions", () => {
+		const diff = diffPolicies(parsePolicy(before), parsePolicy(after), {
+			actions: [
+				createRouteAccessAction("editor", { route: "/status" }),
+				createRouteAccessAction("editor", { route: "/unknown" }),
+			],
+		});
+
+		expect(diff.decisions).toHaveLength(1);
+		expect(diff.decisions[0].action.getParameters()).toEqual({
+			route: "/status",
+		});
+	});
+
+	it("should report no difference for identical policies", () => {
+		const diff = diffPolicies(parsePolicy(before), parsePolicy(before));
+
+		expect(diff).toEqual({
+			combiningAlgorithms: [],
+			decisions: [],
+			groups: { added: [], removed: [] },
+			inheritance: [],
+			roles: { added: [], removed: [] },
+			rules: [],
+		});
+	});
+});
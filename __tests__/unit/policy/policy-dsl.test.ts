@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import {
+	createAccessControl,
+	createComponentAccessAction,
+	createComponentPermission,
+	createDropdownPermission,
+	createGroup,
+	createMenuAccessAction,
+	createRole,
+	createRouteAccessAction,
+	createRoutePermission,
+	parsePolicy,
+	parsePolicyDocument,
+	PolicySyntaxError,
+	printPolicy,
+} from "../../../src";
+
+const source = `# Editorial policy
+combining menu permit-overrides
+
+group viewers
+group editors inherits viewers
+role editor in editors strict
+role intern in viewers
+
+allow viewers navigation /articles/**
+allow viewers navigation /home default
+deny intern navigation ~/^\\/articles\\/drafts/i
+allow editors component billing-panel view, edit
+deny intern component billing-panel edit
+allow editors menu main home, "my articles"
+`;
+
+describe("Policy DSL", () => {
+	it("should parse a policy into a document", () => {
+		const document = parsePolicyDocument(source);
+
+		expect(document.combiningAlgorithms).toEqual({ menu: "permit-overrides" });
+		expect(document.groups).toEqual([
+			{
+				code: "viewers",
+				permissions: [
+					{
+						rules: [
+							{ route: { $regex: "^\\/articles\\/.*$", flags: "" } },
+							{ isDefault: true, route: "/home" },
+						],
+						type: "navigation",
+					},
+				],
+			},
+			{
+				code: "editors",
+				inheritFrom: "viewers",
+				permissions: [
+					{
+						rules: [{ actions: ["view", "edit"], identifier: "billing-panel" }],
+						type: "component",
+					},
+					{
+						rules: [{ identifier: "main", list: ["home", "my articles"] }],
+						type: "menu",
+					},
+				],
+			},
+		]);
+		expect(document.roles[0]).toEqual({
+			code: "editor",
+			groups: ["editors"],
+			permissions: [],
+			strict: true,
+		});
+		expect(document.roles[1].permissions[0].rules).toEqual([
+			{ exclude: true, route: { $regex: "^\\/articles\\/drafts", flags: "i" } },
+		]);
+	});
+
+	it("should build an access control", () => {
+		const accessControl = parsePolicy(source);
+
+		expect(
+			accessControl.can(
+				createRouteAccessAction("editor", { route: "/articles/2024/news" }),
+			),
+		).toBe(true);
+		expect(
+			accessControl.can(
+				createRouteAccessAction("intern", { route: "/Articles/Drafts/1" }),
+			),
+		).toBe(false);
+		expect(
+			accessControl.can(
+				createComponentAccessAction("editor", {
+					action: "edit",
+					identifier: "billing-panel",
+				}),
+			),
+		).toBe(true);
+		expect(
+			accessControl.can(
+				createMenuAccessAction("editor", {
+					identifier: "main",
+					menu: ["my articles"],
+				}),
+			),
+		).toBe(true);
+	});
+
+	it("should report errors with their line and column", () => {
+		const parse = (text: string) => {
+			try {
+				parsePolicyDocument(text);
+			} catch (error) {
+				return error as PolicySyntaxError;
+			}
+		};
+
+		expect(parse("group viewers\nalow viewers navigation /")).toMatchObject({
+			column: 1,
+			line: 2,
+			message: "unknown keyword alow (line 2, column 1)",
+		});
+		expect(parse("role editor in ghosts")).toMatchObject({
+			column: 16,
+			line: 1,
+			message: "group ghosts is not declared (line 1, column 16)",
+		});
+		expect(parse("group a\n  allow a component panel")).toMatchObject({
+			column: 26,
+			line: 2,
+			message: "expected an action (line 2, column 26)",
+		});
+		expect(parse("group a\nallow a feature x")).toMatchObject({
+			column: 9,
+			message: "permission type feature is not supported (line 2, column 9)",
+		});
+		expect(parse('group "a')).toBeInstanceOf(PolicySyntaxError);
+		expect(parse("group a\ngroup a")?.message).toBe(
+			"a is already declared (line 2, column 7)",
+		);
+	});
+
+	it("should parse and print rule conditions", () => {
+		const source = `group editors
+
+allow editors component article edit when {"eq":[{"ref":"subject.id"},{"ref":"resource.ownerId"}]}
+`;
+		const document = parsePolicyDocument(source);
+
+		expect(document.groups[0].permissions[0].rules).toEqual([
+			{
+				actions: ["edit"],
+				condition: {
+					eq: [{ ref: "subject.id" }, { ref: "resource.ownerId" }],
+				},
+				identifier: "article",
+			},
+		]);
+		expect(printPolicy(document)).toBe(source);
+		expect(() =>
+			parsePolicyDocument("group a\nallow a navigation / when {"),
+		).toThrow("invalid condition (line 2, column 27)");
+	});
+
+	it("should print an access control back into the DSL", () => {
+		const viewers = createGroup("viewers");
+		const editors = createGroup("editors", viewers);
+		const editor = createRole("editor");
+
+		editor.assignGroup(editors);
+		createRoutePermission(viewers, [
+			{ route: /^\/articles\/.*$/ },
+			{ exclude: true, route: /^\/admin/i },
+		]);
+		createComponentPermission(editors, [
+			{ actions: ["view"], identifier: "billing panel" },
+		]);
+		createDropdownPermission(editor, [{ identifier: "status", list: /^d/ }]);
+
+		const accessControl = createAccessControl({
+			combiningAlgorithm: "first-applicable",
+			roles: [editor],
+		});
+		const printed = printPolicy(accessControl);
+
+		expect(printed).toBe(`combining first-applicable
+
+group viewers
+group editors inherits viewers
+
+role editor in editors
+
+allow viewers navigation /articles/**
+deny viewers navigation ~/^\\/admin/i
+allow editors component "billing panel" view
+allow editor dropdown status ~/^d/
+`);
+		expect(printPolicy(parsePolicy(printed))).toBe(printed);
+	});
+});
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import {
+	createAccessControl,
+	createComponentPermission,
+	createGroup,
+	createRole,
+	createRoutePermission,
+	type ILintCheck,
+	lintPolicy,
+} from "../../../src";
+
+/**
+ * Create an access control whose editors inherit the rules of the staff group.
+ * @returns {object} The access control, its editor role and staff group.
+ */
+function createPolicy() {
+	const staff = createGroup("STAFF");
+	const editor = createRole("EDITOR");
+
+	editor.assignGroup(staff);
+	createRoutePermission(staff, [
+		{ isDefault: true, route: "/home" },
+		{ exclude: true, route: /^\/admin/ },
+	]);
+
+	return {
+		accessControl: createAccessControl({ groups: [staff], roles: [editor] }),
+		editor,
+		staff,
+	};
+}
+
+describe("Policy lint", () => {
+	it("should report nothing for a clean policy", () => {
+		expect(lintPolicy(createPolicy().accessControl)).toEqual([]);
+	});
+
+	it("should report the rules failing each check, including across inheritance", () => {
+		const { accessControl, editor } = createPolicy();
+
+		createRoutePermission(editor, [
+			{ route: "/admin/users" },
+			{ isDefault: true, route: "/dashboard" },
+			{ route: /^\/reports/g },
+		]);
+		createComponentPermission(editor, [
+			{ actions: ["view"], identifier: "article" },
+			{ actions: [], identifier: "draft" },
+			{ actions: ["view", "edit"], identifier: "article" },
+		]);
+
+		expect(
+			lintPolicy(accessControl).map(
+				({
+					check,
+					message,
+					ruleIndex,
+					severity,
+					target,
+					targetKind,
+					type,
+				}) => ({
+					check,
+					message,
+					ruleIndex,
+					severity,
+					target,
+					targetKind,
+					type,
+				}),
+			),
+		).toEqual([
+			{
+				check: "multiple-default-routes",
+				message: "the rule /home of STAFF is already the default route",
+				ruleIndex: 1,
+				severity: "error",
+				target: "EDITOR",
+				targetKind: "role",
+				type: "navigation",
+			},
+			{
+				check: "stateful-regex",
+				message:
+					"the route regular expression is stateful, remove its g and y flags",
+				ruleIndex: 2,
+				severity: "error",
+				target: "EDITOR",
+				targetKind: "role",
+				type: "navigation",
+			},
+			{
+				check: "shadowed-rule",
+				message: "unreachable, the rule /^\\/admin/ of STAFF excludes it first",
+				ruleIndex: 0,
+				severity: "warning",
+				target: "EDITOR",
+				targetKind: "role",
+				type: "navigation",
+			},
+			{
+				check: "duplicate-identifier",
+				message: "duplicates the identifier of the rule article of EDITOR",
+				ruleIndex: 2,
+				severity: "warning",
+				target: "EDITOR",
+				targetKind: "role",
+				type: "component",
+			},
+			{
+				check: "empty-actions",
+				message: "never matches, its actions are empty",
+				ruleIndex: 1,
+				severity: "warning",
+				target: "EDITOR",
+				targetKind: "role",
+				type: "component",
+			},
+		]);
+	});
+
+	it("should report inherited rules once, on the group defining them", () => {
+		const { accessControl, staff } = createPolicy();
+		const author = createRole("AUTHOR");
+
+		author.assignGroup(staff);
+		accessControl.addRole(author);
+		createRoutePermission(staff, [{ route: /^\/news/y }]);
+
+		expect(lintPolicy(accessControl)).toMatchObject([
+			{ check: "stateful-regex", ruleIndex: 0, target: "STAFF" },
+		]);
+	});
+
+	it("should run custom checks and skip ignored ones", () => {
+		const { accessControl, editor } = createPolicy();
+		const noRegexRoutes: ILintCheck = {
+			check: (entries) =>
+				entries.flatMap(({ rule }, index) =>
+					rule.route instanceof RegExp
+						? [{ index, message: "use a string route" }]
+						: [],
+				),
+			name: "no-regex-routes",
+			severity: "info",
+		};
+
+		createRoutePermission(editor, [{ route: /^\/reports/g }]);
+
+		expect(
+			lintPolicy(accessControl, {
+				checks: [noRegexRoutes],
+			}).map(({ check, target }) => [check, target]),
+		).toEqual([
+			["no-regex-routes", "STAFF"],
+			["no-regex-routes", "EDITOR"],
+		]);
+		expect(lintPolicy(accessControl, { ignore: ["stateful-regex"] })).toEqual(
+			[],
+		);
+	});
+});
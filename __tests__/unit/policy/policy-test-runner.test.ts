@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import {
+	createAccessControl,
+	createMenuPermission,
+	createRole,
+	createRoutePermission,
+	formatPolicyTestReport,
+	parsePolicy,
+	parsePolicyTestTable,
+	PolicyTestTableError,
+	runPolicyTests,
+	TenantAccessControl,
+} from "../../../src";
+
+const accessControl = parsePolicy(`
+group viewers
+role editor in viewers
+role intern in viewers
+
+allow viewers navigation /articles
+allow editor component billing-panel view, edit
+deny intern navigation /articles
+allow editor menu main home, settings
+`);
+
+describe("Policy test runner", () => {
+	it("should run expectations written in code", () => {
+		const report = runPolicyTests(accessControl, [
+			{
+				allow: true,
+				parameters: { route: "/articles" },
+				roleCode: "editor",
+				type: "navigation",
+			},
+			{
+				allow: false,
+				message: "route access is not allowed",
+				parameters: { route: "/articles" },
+				roleCode: "intern",
+				type: "navigation",
+			},
+			{
+				accessibleList: ["settings", "home"],
+				allow: true,
+				parameters: { identifier: "main", menu: ["home", "settings", "admin"] },
+				roleCode: "editor",
+				type: "menu",
+			},
+		]);
+
+		expect(report).toMatchObject({ failed: 0, failures: {}, passed: 3 });
+		expect(report.results.every(({ passed }) => passed)).toBe(true);
+	});
+
+	it("should decide the expectations of a tenant against its policy", () => {
+		const tenants = new TenantAccessControl(accessControl);
+		const author = createRole("editor");
+
+		createRoutePermission(author, [{ route: "/drafts" }]);
+		tenants.addTenant("acme", [author]);
+
+		const expectation = {
+			allow: true,
+			parameters: { route: "/drafts" },
+			roleCode: "editor",
+			type: "navigation",
+		};
+		const report = runPolicyTests(tenants, [
+			{ ...expectation, tenantId: "acme" },
+			{ ...expectation, allow: false },
+			{
+				...expectation,
+				allow: false,
+				message: "Tenant not found.",
+				tenantId: "globex",
+			},
+		]);
+
+		expect(report).toMatchObject({ failed: 0, passed: 3 });
+		expect(report.results[2].decision.message.code).toBe("TENANT_NOT_FOUND");
+	});
+
+	it("should evaluate accessible lists with the clock of the access control", () => {
+		const editor = createRole("EDITOR");
+
+		createMenuPermission(editor, [
+			{ identifier: "main", list: ["home"] },
+			{
+				identifier: "main",
+				list: ["admin"],
+				validUntil: "2028-01-01T00:00:00Z",
+			},
+		]);
+
+		const report = runPolicyTests(
+			createAccessControl({
+				clock: () => new Date("2030-01-01T00:00:00Z"),
+				roles: [editor],
+			}),
+			[
+				{
+					accessibleList: ["home"],
+					allow: true,
+					parameters: { identifier: "main", menu: ["home", "admin"] },
+					roleCode: "EDITOR",
+					type: "menu",
+				},
+			],
+		);
+
+		expect(report.failed).toBe(0);
+	});
+
+	it("should report the failures grouped by role", () => {
+		const report = runPolicyTests(
+			accessControl,
+			`[
+				{ "roleCode": "intern", "type": "navigation", "parameters": { "route": "/articles" }, "allow": true },
+				{ "roleCode": "editor", "type": "component", "parameters": { "action": "view", "identifier": "billing-panel" }, "allow": true },
+				{ "roleCode": "editor", "type": "menu", "parameters": { "identifier": "main", "menu": ["home", "admin"] }, "allow": true, "accessibleList": ["home", "admin"], "name": "main menu" },
+				{ "roleCode": "intern", "type": "component", "parameters": { "action": "view", "identifier": "billing-panel" }, "allow": false, "message": "Access denied." }
+			]`,
+		);
+
+		expect(report.passed).toBe(1);
+		expect(Object.keys(report.failures)).toEqual(["intern", "editor"]);
+		expect(formatPolicyTestReport(report)).toBe(
+			[
+				"1 passed, 3 failed",
+				"",
+				"intern",
+				'  ✗ navigation {"route":"/articles"}',
+				"      expected allow, got deny (route access is not allowed)",
+				'  ✗ component {"action":"view","identifier":"billing-panel"}',
+				'      expected message "Access denied.", got "No matching permissions found."',
+				"",
+				"editor",
+				"  ✗ main menu",
+				"      expected accessible list [home, admin], got [home]",
+			].join("\n"),
+		);
+	});
+
+	it("should parse CSV tables", () => {
+		const table = parsePolicyTestTable(
+			[
+				"roleCode,type,parameters,allow,message",
+				'editor,navigation,"{""route"":""/articles""}",allow,',
+				"",
+				'intern,navigation,"{""route"":""/articles""}",DENY,"route access is not allowed"',
+			].join("\r\n"),
+		);
+
+		expect(table).toEqual([
+			{
+				allow: true,
+				parameters: { route: "/articles" },
+				roleCode: "editor",
+				type: "navigation",
+			},
+			{
+				allow: false,
+				message: "route access is not allowed",
+				parameters: { route: "/articles" },
+				roleCode: "intern",
+				type: "navigation",
+			},
+		]);
+		expect(runPolicyTests(accessControl, table).failed).toBe(0);
+	});
+
+	it("should reject invalid tables with the row of the error", () => {
+		expect(() => parsePolicyTestTable("roleCode,type,expected")).toThrow(
+			new PolicyTestTableError("unknown column expected", 1),
+		);
+		expect(() =>
+			parsePolicyTestTable("roleCode,type,allow\neditor,navigation,maybe"),
+		).toThrow("allow must be allow, deny, true or false: maybe (row 2)");
+		expect(() =>
+			parsePolicyTestTable(
+				"roleCode,type,parameters,allow\neditor,menu,{,deny",
+			),
+		).toThrow("parameters must be JSON: { (row 2)");
+		expect(() =>
+			parsePolicyTestTable('[{ "roleCode": "editor", "allow": true }]'),
+		).toThrow("type must be a string (row 1)");
+	});
+});
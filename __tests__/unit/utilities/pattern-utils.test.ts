@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { matchPattern } from "../../../src/utilities/pattern-utils";
+
+describe("pattern-utils", () => {
+	describe("matchPattern()", () => {
+		it("should describe a regular expression match", () => {
+			expect(matchPattern(/^\/admin/, "/admin/users")).toEqual({
+				matchedBy: "regex",
+				pattern: "/^\\/admin/",
+			});
+		});
+
+		it("should describe an exact string match", () => {
+			expect(matchPattern("/admin", "/admin")).toEqual({
+				matchedBy: "string",
+				pattern: "/admin",
+			});
+		});
+
+		it("should match global and sticky expressions the same way every time", () => {
+			const patterns = [/^\/admin/g, /\/admin/y];
+
+			patterns.forEach((pattern) => {
+				expect(matchPattern(pattern, "/admin")).toBeDefined();
+				expect(matchPattern(pattern, "/admin")).toBeDefined();
+			});
+		});
+
+		it("should return undefined if the pattern doesn't match", () => {
+			expect(matchPattern(/^\/admin/, "/profile")).toBeUndefined();
+			expect(matchPattern("/admin", "/admin/users")).toBeUndefined();
+		});
+	});
+});
@@ -1,8 +1,238 @@
+import {
+	type CombiningAlgorithm,
+	combinePermissionResults,
+	type IPermissionResult,
+} from "./combining-algorithms.js";
+import { AuditLog, type IAuditOptions } from "./audit-log.js";
+import {
+	DecisionCache,
+	type IDecisionCacheOptions,
+	type IDecisionCacheStats,
+} from "./decision-cache.js";
+import type { IActor, IDelegation } from "./delegation.js";
+import type {
+	DecisionTraceStep,
+	IDecisionTrace,
+	IRuleEntry,
+	IRuleEvaluation,
+} from "./decision-trace.js";
+import {
+	defaultLocale,
+	formatMessage,
+	type MessageKey,
+	type MessageParameters,
+} from "./message-catalog.js";
+import type { IPolicyDocument } from "../types/policy-types.js";
+
+import { PermissionDeniedError } from "./permission-error.js";
+import {
+	type PolicyEvent,
+	PolicyEventEmitter,
+	type PolicyEventListener,
+	type PolicyEventType,
+} from "./policy-events.js";
+import { deserializePolicy, serializePolicy } from "./policy-serialization.js";
+import { assertValidPolicy } from "./policy-validation.js";
+import type { IActionContext } from "./rule-conditions.js";
+import {
+	type Clock,
+	getValidity,
+	getValidityStatus,
+	type IExpiredRule,
+	type IValidity,
+	toDate,
+	type ValidityStatus,
+} from "./rule-validity.js";
 import {
 	type IPermissionMessage,
 	PermissionMessage,
+	type PermissionMessageCode,
 } from "./permission-message.js";
 
+/**
+ * Interface for access control options.
+ */
+export interface IAccessControlOptions {
+	/**
+	 * Record every decision into audit sinks, such as a ring buffer or a newline-delimited JSON stream.
+	 */
+	audit?: IAuditOptions;
+
+	/**
+	 * The shared policy overlaid by the access control, e.g. by a tenant. Role codes are resolved against
+	 * both policies, the permissions of the base role coming first, and the combining algorithms of the
+	 * base policy apply unless overridden.
+	 */
+	base?: AccessControl;
+
+	/**
+	 * Cache decisions by role code, action type and parameters, `true` to use the default cache options.
+	 * The cache is cleared whenever the policy changes. Decisions involving rules with function conditions,
+	 * which may read external state, are not cached.
+	 */
+	cache?: boolean | IDecisionCacheOptions;
+
+	/**
+	 * The clock time-bound rules and permissions are evaluated with, defaults to the system time.
+	 * Decisions involving time-bound rules are not cached.
+	 */
+	clock?: Clock;
+
+	/**
+	 * The algorithm used to combine every applicable permission, defaults to `deny-overrides`.
+	 */
+	combiningAlgorithm?: CombiningAlgorithm;
+
+	/**
+	 * Algorithms overriding the default one for specific permission types.
+	 */
+	combiningAlgorithms?: Partial<Record<string, CombiningAlgorithm>>;
+
+	/**
+	 * The codes of the privileged roles allowed to impersonate other roles, e.g. support staff.
+	 */
+	impersonators?: string[];
+
+	/**
+	 * The locale the messages of the decisions are formatted in, or the locales in order of preference.
+	 * Defaults to the locale of the base policy, then English.
+	 */
+	locale?: string | string[];
+}
+
+/**
+ * Interface for action options.
+ */
+export interface IActionOptions {
+	/**
+	 * The identity performing the action on behalf of the role of the action, by impersonation or delegation.
+	 */
+	actor?: IActor;
+
+	/**
+	 * The attributes evaluated by the conditions of the rules.
+	 */
+	context?: IActionContext;
+
+	/**
+	 * The tenant performing the action, resolving its role against the policy of the tenant.
+	 */
+	tenantId?: string;
+}
+
+/**
+ * Interface for role options.
+ */
+export interface IRoleOptions {
+	/**
+	 * Restrict the role to a single group: assigning another group throws and
+	 * `Group.assignRole` moves the role out of its current group.
+	 */
+	strict?: boolean;
+}
+
+/**
+ * Interface for the decision made for an action.
+ * @template A
+ */
+export interface IPermissionDecision<A extends Action = Action> {
+	/**
+	 * The action the decision was made for.
+	 */
+	action: A;
+
+	/**
+	 * The identity performing the action on behalf of its role, if any.
+	 */
+	actor?: IActor;
+
+	/**
+	 * The message describing the decision.
+	 */
+	message: IPermissionMessage;
+
+	/**
+	 * The permission that decided the action, or null if no permission was found.
+	 */
+	permission: Permission | null;
+
+	/**
+	 * The role resolved from the action, or undefined if not found.
+	 */
+	role?: Role;
+
+	/**
+	 * The status of the decision.
+	 */
+	status: "failed" | "success";
+}
+
+/**
+ * Interface for a role found by a reverse lookup, together with the rule responsible for its decision.
+ */
+export interface IRoleAccess {
+	decision: IPermissionDecision;
+
+	/**
+	 * The role or group the responsible rule was defined on, the permission target if no rule matched.
+	 */
+	origin: Group | Role;
+	permission: Permission;
+	role: Role;
+
+	/**
+	 * The rule allowing the action, or the rule excluding it.
+	 */
+	rule?: unknown;
+}
+
+/**
+ * Interface for the roles allowed to perform an action, and the roles explicitly excluded from it.
+ */
+export interface IRoleLookup {
+	allowed: IRoleAccess[];
+
+	/**
+	 * The roles denied by a rule with the exclude flag.
+	 */
+	excluded: IRoleAccess[];
+}
+
+/**
+ * Decisions for a batch of actions, keyed like the actions: an array for an array of actions, or a record for a record.
+ * @template T
+ */
+export type DecisionMap<T extends Action[] | Record<string, Action>> = {
+	[K in keyof T]: T[K] extends Action ? IPermissionDecision<T[K]> : never;
+};
+
+/**
+ * Interface for the lookups shared by the evaluations of a batch of actions.
+ */
+interface IEvaluationScope {
+	now: Date;
+
+	/**
+	 * The permissions of every role code and action type looked up.
+	 */
+	permissions: Map<string, Permission[]>;
+
+	/**
+	 * The role of every role code looked up.
+	 */
+	roles: Map<string, Role | undefined>;
+
+	/**
+	 * The rule entries of every permission evaluated, flattened once for the whole batch.
+	 */
+	ruleEntries: Map<Permission, IRuleEntry<unknown>[]>;
+
+	/**
+	 * Whether the decisions bypass the decision cache, neither reading nor writing it.
+	 */
+	uncached?: boolean;
+}
+
 /**
  * Interface for permission callbacks.
  * @template A
@@ -35,10 +265,12 @@ abstract class RoleAccessControl {
 	/**
 	 * @param {Role[]} roles - The roles associated with this access control.
 	 * @param {Group[]} groups - The groups associated with this access control.
+	 * @param {IAccessControlOptions} options - The options of this access control.
 	 */
 	constructor(
 		protected roles: Role[],
 		protected groups: Group[],
+		protected options: IAccessControlOptions = {},
 	) {}
 
 	/**
@@ -53,6 +285,18 @@ abstract class RoleAccessControl {
 	 */
 	abstract addGroup(group: Group): void;
 
+	/**
+	 * Allow developer to remove a role.
+	 * @param {Role | string} role - The role, or its code, to remove.
+	 */
+	abstract removeRole(role: Role | string): void;
+
+	/**
+	 * Allow developer to remove a group.
+	 * @param {Group | string} group - The group, or its code, to remove.
+	 */
+	abstract removeGroup(group: Group | string): void;
+
 	/**
 	 * Check permissions for a given action.
 	 * @param {Action} action - The action to check permissions for.
@@ -62,12 +306,81 @@ abstract class RoleAccessControl {
 		action: Action,
 		callbacks: IPermissionCallbacks<Action>,
 	): void;
+
+	/**
+	 * Decide whether a given action is allowed.
+	 * @param {Action} action - The action to decide.
+	 * @returns {IPermissionDecision} The decision for the action.
+	 */
+	abstract decide(action: Action): IPermissionDecision;
 }
 
 /**
  * Class for managing access control.
  */
 export class AccessControl extends RoleAccessControl {
+	private auditLog?: AuditLog;
+	private baseSubscription?: () => void;
+	private cache?: DecisionCache<IPermissionDecision>;
+	private delegations: IDelegation[] = [];
+	private events = new PolicyEventEmitter();
+	private observed = new Map<Group | Role, () => void>();
+	private version = 0;
+
+	/**
+	 * @param {Role[]} roles - The roles associated with this access control.
+	 * @param {Group[]} groups - The groups associated with this access control.
+	 * @param {IAccessControlOptions} options - The options of this access control.
+	 */
+	constructor(
+		roles: Role[],
+		groups: Group[],
+		options: IAccessControlOptions = {},
+	) {
+		super(roles, groups, options);
+
+		if (options.audit) {
+			this.auditLog = new AuditLog(options.audit);
+		}
+
+		if (options.cache) {
+			this.cache = new DecisionCache(
+				options.cache === true ? {} : options.cache,
+			);
+		}
+
+		[...roles, ...groups].forEach((node) => {
+			this.observe(node);
+		});
+
+		this.baseSubscription = options.base?.subscribe((event) => {
+			this.publish(event);
+		});
+	}
+
+	/**
+	 * Create an access control from a policy document, restoring its regular expressions.
+	 * Permission types are resolved through the registered permission factories.
+	 * @param {IPolicyDocument | string} document - The policy document, or its JSON string.
+	 * @param {IAccessControlOptions} [options] - The runtime options of the access control, such as its cache or clock.
+	 * @returns {AccessControl} The access control described by the document.
+	 * @throws {PolicyValidationError} If the document is invalid, listing every error found.
+	 */
+	static fromJSON(
+		document: IPolicyDocument | string,
+		options: Omit<
+			IAccessControlOptions,
+			"combiningAlgorithm" | "combiningAlgorithms"
+		> = {},
+	): AccessControl {
+		const parsed: unknown =
+			typeof document === "string" ? JSON.parse(document) : document;
+
+		assertValidPolicy(parsed);
+
+		return deserializePolicy(parsed, options);
+	}
+
 	/**
 	 * Add a role to the access control.
 	 * @param {Role} role - The role to add.
@@ -75,6 +388,8 @@ export class AccessControl extends RoleAccessControl {
 	addRole(role: Role) {
 		if (!this.roles.includes(role)) {
 			this.roles.push(role);
+			this.observe(role);
+			this.publish({ role, type: "roleAdded" });
 		}
 	}
 
@@ -85,7 +400,61 @@ export class AccessControl extends RoleAccessControl {
 	addGroup(group: Group) {
 		if (!this.groups.includes(group)) {
 			this.groups.push(group);
+			this.observe(group);
+			this.publish({ group, type: "groupAdded" });
+		}
+	}
+
+	/**
+	 * Assert that a given action is allowed.
+	 * @param {A extends Action} action - The action to assert.
+	 * @returns {IPermissionDecision<A>} The successful decision.
+	 * @throws {PermissionDeniedError} If the action is not allowed.
+	 */
+	assert<A extends Action>(action: A): IPermissionDecision<A> {
+		const decision = this.decide(action);
+
+		if (decision.status === "failed") {
+			throw new PermissionDeniedError(decision);
 		}
+
+		return decision;
+	}
+
+	/**
+	 * Check whether a given action is allowed.
+	 * @param {Action} action - The action to check.
+	 * @returns {boolean} True if the action is allowed.
+	 */
+	can(action: Action): boolean {
+		return this.decide(action).status === "success";
+	}
+
+	/**
+	 * Check whether a given action is not allowed.
+	 * @param {Action} action - The action to check.
+	 * @returns {boolean} True if the action is not allowed.
+	 */
+	cannot(action: Action): boolean {
+		return !this.can(action);
+	}
+
+	/**
+	 * Decide a batch of heterogeneous actions in one pass, looking up each role and its permissions once
+	 * and evaluating every action at the same time.
+	 * @param {T extends Action[] | Record<string, Action>} actions - The actions to decide, as an array or a record.
+	 * @returns {DecisionMap<T>} The decision for each action, under the index or key of the action.
+	 *
+	 * @example
+	 * const { editArticle, openSettings } = accessControl.checkMany({
+	 *   editArticle: createComponentAccessAction("EDITOR", { action: "edit", identifier: "article" }),
+	 *   openSettings: createMenuAccessAction("EDITOR", { identifier: "settings" }),
+	 * });
+	 */
+	checkMany<T extends Action[] | Record<string, Action>>(
+		actions: T,
+	): DecisionMap<T> {
+		return this.decideMany(actions, true);
 	}
 
 	/**
@@ -97,79 +466,930 @@ export class AccessControl extends RoleAccessControl {
 		action: A,
 		callbacks: IPermissionCallbacks<A>,
 	): void {
+		const decision = this.decide(action);
+
+		if (decision.status === "failed") {
+			if (callbacks.onFailure) {
+				callbacks.onFailure(action, decision.permission, decision.message);
+			}
+			return;
+		}
+
+		callbacks.onSuccess(action, decision.permission!);
+	}
+
+	/**
+	 * Decide whether a given action is allowed, recording the decision into the audit log if any.
+	 * @param {A extends Action} action - The action to decide.
+	 * @returns {IPermissionDecision<A>} The decision for the action.
+	 */
+	decide<A extends Action>(action: A): IPermissionDecision<A> {
+		const decision = this.resolveDecision(action);
+
+		this.auditLog?.record(decision, this.getTime(), this.getLocale());
+
+		return decision;
+	}
+
+	/**
+	 * Delegate permissions from a role to another one. Actions the deputy role performs on behalf of the delegating
+	 * role, with a `delegation` actor, are allowed only if a delegation in effect covers their type and the delegating
+	 * role is allowed to perform them: the effective permissions are the intersection of the permissions of the
+	 * delegating role and the delegated types.
+	 * @param {IDelegation} delegation - The delegation, optionally limited to permission types and to a period.
+	 * @returns {function(): void} A function revoking the delegation.
+	 *
+	 * @example
+	 * const revoke = accessControl.delegate({ from: "MANAGER", to: "DEPUTY", validUntil: "2024-09-01T00:00:00Z" });
+	 *
+	 * accessControl.can(
+	 *   createComponentAccessAction("MANAGER", { action: "edit", identifier: "budget" }, {
+	 *     actor: { id: "u42", mode: "delegation", roleCode: "DEPUTY" },
+	 *   }),
+	 * );
+	 */
+	delegate(delegation: IDelegation): () => void {
+		this.delegations.push(delegation);
+		this.publish({ delegation, type: "delegationAdded" });
+
+		return () => {
+			this.revokeDelegation(delegation);
+		};
+	}
+
+	/**
+	 * Stop observing the roles, groups and base policy of the access control, so that it can be garbage
+	 * collected while they are still in use. The access control no longer emits events nor invalidates its cache.
+	 */
+	dispose() {
+		this.baseSubscription?.();
+		this.baseSubscription = undefined;
+		[...this.observed.keys()].forEach((node) => {
+			this.unobserve(node);
+		});
+	}
+
+	/**
+	 * Explain how the decision for a given action is made, step by step.
+	 * @param {A extends Action} action - The action to explain.
+	 * @returns {IDecisionTrace<A>} The trace of the decision.
+	 */
+	explain<A extends Action>(action: A): IDecisionTrace<A> {
+		const steps: DecisionTraceStep[] = [];
+		const actor = action.getActor();
+		const refusal = actor && this.checkActor(action, actor, this.getTime());
+		const decision = this.localize(refusal || this.evaluate(action, steps));
+
+		return {
+			action,
+			decision: actor ? { ...decision, actor } : decision,
+			steps,
+		};
+	}
+
+	/**
+	 * Get the combining algorithm used for a permission type.
+	 * @param {string} [type] - Optional permission type.
+	 * @returns {CombiningAlgorithm} The combining algorithm.
+	 */
+	getCombiningAlgorithm(type?: string): CombiningAlgorithm {
+		return (
+			(type ? this.options.combiningAlgorithms?.[type] : undefined) ??
+			this.options.combiningAlgorithm ??
+			this.options.base?.getCombiningAlgorithm(type) ??
+			"deny-overrides"
+		);
+	}
+
+	/**
+	 * Get the version of the policy, incremented on every mutation.
+	 * Can be used as the `getSnapshot` function of `useSyncExternalStore`-style stores.
+	 * @returns {number} The version of the policy.
+	 */
+	getSnapshot = (): number => this.version;
+
+	/**
+	 * Subscribe a listener to the events of a single type.
+	 * @param {K} type - The type of the events to listen to.
+	 * @param {PolicyEventListener} listener - The listener to subscribe.
+	 * @returns {function(): void} A function unsubscribing the listener.
+	 */
+	on<K extends PolicyEventType>(
+		type: K,
+		listener: PolicyEventListener<Extract<PolicyEvent, { type: K }>>,
+	): () => void {
+		return this.events.subscribe((event) => {
+			if (event.type === type) {
+				listener(event as Extract<PolicyEvent, { type: K }>);
+			}
+		});
+	}
+
+	/**
+	 * Decide a batch of actions like `checkMany`, without recording them into the audit log nor reading or writing
+	 * the decision cache, for tools probing the policy not to mix their decisions with the ones of the application.
+	 * @param {T extends Action[] | Record<string, Action>} actions - The actions to decide, as an array or a record.
+	 * @returns {DecisionMap<T>} The decision for each action, under the index or key of the action.
+	 */
+	probe<T extends Action[] | Record<string, Action>>(
+		actions: T,
+	): DecisionMap<T> {
+		return this.decideMany(actions, false);
+	}
+
+	/**
+	 * Subscribe a listener to every policy mutation, including mutations of the roles,
+	 * groups and permissions reachable from the access control.
+	 * Can be used as the `subscribe` function of `useSyncExternalStore`-style stores.
+	 * @param {PolicyEventListener} listener - The listener to subscribe.
+	 * @returns {function(): void} A function unsubscribing the listener.
+	 */
+	subscribe = (listener: PolicyEventListener): (() => void) =>
+		this.events.subscribe(listener);
+
+	/**
+	 * Serialize the access control into a policy document, encoding regular expressions losslessly.
+	 * @returns {IPolicyDocument} The policy document.
+	 */
+	toJSON(): IPolicyDocument {
+		return serializePolicy(this);
+	}
+
+	/**
+	 * Unsubscribe a listener.
+	 * @param {PolicyEventListener} listener - The listener to unsubscribe.
+	 */
+	unsubscribe(listener: PolicyEventListener) {
+		this.events.unsubscribe(listener);
+	}
+
+	/**
+	 * Get the statistics of the decision cache.
+	 * @returns {IDecisionCacheStats | undefined} The statistics, or undefined if the cache is disabled.
+	 */
+	getCacheStats(): IDecisionCacheStats | undefined {
+		return this.cache?.getStats();
+	}
+
+	/**
+	 * Get the locale the messages of the decisions are formatted in.
+	 * @returns {string | string[]} The locale, or the locales in order of preference.
+	 */
+	getLocale(): string | string[] {
+		return (
+			this.options.locale ?? this.options.base?.getLocale() ?? defaultLocale
+		);
+	}
+
+	/**
+	 * Get the combining algorithms overriding the default one per permission type.
+	 * @returns {Partial<Record<string, CombiningAlgorithm>>} The combining algorithms by permission type.
+	 */
+	getCombiningAlgorithms(): Partial<Record<string, CombiningAlgorithm>> {
+		return { ...this.options.combiningAlgorithms };
+	}
+
+	/**
+	 * Get the current time from the clock of the access control, against which time-bound rules are evaluated.
+	 * @returns {Date} The current time.
+	 */
+	getTime(): Date {
+		return this.options.clock?.() ?? new Date();
+	}
+
+	/**
+	 * Get the rules and permissions reachable from the access control whose validity period is over,
+	 * so that they can be cleaned up. Inherited rules are reported once, on the group defining them.
+	 * @returns {IExpiredRule[]} The expired rules, and the expired permissions without a rule.
+	 */
+	getExpiredRules(): IExpiredRule[] {
+		const now = this.getTime();
+		const permissions = new Set([
+			...this.roles.flatMap((role) => role.getPermissions()),
+			...this.groups.flatMap((group) =>
+				[...group.getAncestors(), group].flatMap((node) =>
+					node.getPermissions(),
+				),
+			),
+		]);
+
+		return [...permissions].flatMap((permission) => {
+			const origin = permission.getTarget();
+			const validity = permission.getValidity();
+
+			if (validity && getValidityStatus(validity, now) === "expired") {
+				return [
+					{ origin, permission, validUntil: toDate(validity.validUntil!) },
+				];
+			}
+
+			return permission.rules.flatMap((rule) => {
+				const ruleValidity = getValidity(rule);
+
+				return ruleValidity &&
+					getValidityStatus(ruleValidity, now) === "expired"
+					? [
+							{
+								origin,
+								permission,
+								rule,
+								validUntil: toDate(ruleValidity.validUntil!),
+							},
+						]
+					: [];
+			});
+		});
+	}
+
+	/**
+	 * Get the base policy overlaid by the access control.
+	 * @returns {AccessControl | undefined} The base policy, or undefined if the access control doesn't overlay one.
+	 */
+	getBase(): AccessControl | undefined {
+		return this.options.base;
+	}
+
+	/**
+	 * Get the delegations of the access control, including the ones of its base policy.
+	 * @returns {IDelegation[]} The delegations, the ones of the base policy first.
+	 */
+	getDelegations(): IDelegation[] {
+		return [
+			...(this.options.base?.getDelegations() ?? []),
+			...this.delegations,
+		];
+	}
+
+	/**
+	 * Get the permissions of a role code, including the permissions the base policy grants to the same code first.
+	 * @param {string} roleCode - The code of the role.
+	 * @param {string} [type] - Optional type to filter permissions.
+	 * @returns {Permission[]} An array of permissions, empty if the role is not found.
+	 */
+	getRolePermissions(roleCode: string, type?: string): Permission[] {
+		return [
+			...(this.options.base?.getRolePermissions(roleCode, type) ?? []),
+			...(this.getRoleByCode(roleCode)?.getPermissions(type) ?? []),
+		];
+	}
+
+	/**
+	 * Get a role by its code.
+	 * @param {string} roleCode - The code of the role to retrieve.
+	 * @returns {Role | undefined} The role associated with the code, or undefined if not found.
+	 */
+	getRoleByCode(roleCode: string) {
+		return this.roles.find((role) => role.getCode() === roleCode);
+	}
+
+	/**
+	 * Set the combining algorithm, for every permission type or for a specific one.
+	 * @param {CombiningAlgorithm} algorithm - The combining algorithm.
+	 * @param {string} [type] - Optional permission type to override.
+	 */
+	setCombiningAlgorithm(algorithm: CombiningAlgorithm, type?: string) {
+		if (type) {
+			this.options.combiningAlgorithms = {
+				...this.options.combiningAlgorithms,
+				[type]: algorithm,
+			};
+		} else {
+			this.options.combiningAlgorithm = algorithm;
+		}
+
+		this.publish({
+			algorithm,
+			permissionType: type,
+			type: "combiningAlgorithmChanged",
+		});
+	}
+
+	/**
+	 * Set the locale the messages of the decisions are formatted in, incrementing the policy version.
+	 * Cached decisions are formatted again, so the cache is kept.
+	 * @param {string | string[]} locale - The locale, or the locales in order of preference.
+	 */
+	setLocale(locale: string | string[]) {
+		this.options.locale = locale;
+		this.version++;
+		this.events.emit({ locale, type: "localeChanged" });
+	}
+
+	/**
+	 * Get all roles associated with this access control.
+	 * @returns {Role[]} An array of roles.
+	 */
+	getRoles() {
+		return this.roles;
+	}
+
+	/**
+	 * Get all groups associated with this access control.
+	 * @returns {Group[]} An array of groups.
+	 */
+	getGroups() {
+		return this.groups;
+	}
+
+	/**
+	 * Get a group by its code.
+	 * @param {string} groupCode - The code of the group to retrieve.
+	 * @returns {Group | undefined} The group associated with the code, or undefined if not found.
+	 */
+	getGroupByCode(groupCode: string) {
+		return this.groups.find((group) => group.getCode() === groupCode);
+	}
+
+	/**
+	 * Remove a group from the access control.
+	 * Member roles leave the group, and groups inheriting from it inherit from its parent group instead,
+	 * so they keep the rules of the remaining ancestors.
+	 * @param {Group | string} group - The group, or its code, to remove.
+	 */
+	removeGroup(group: Group | string) {
+		const removed =
+			typeof group === "string" ? this.getGroupByCode(group) : group;
+
+		if (!removed) {
+			return;
+		}
+
+		const knownGroups = [
+			...this.groups,
+			...this.roles.flatMap((role) => role.getInheritanceChain()),
+		];
+		knownGroups
+			.filter((child) => child.getInheritFrom() === removed)
+			.forEach((child) => {
+				child.setInheritFrom(removed.getInheritFrom());
+			});
+
+		[...removed.getRoles()].forEach((role) => {
+			removed.removeRole(role);
+		});
+
+		this.groups = this.groups.filter((_group) => _group !== removed);
+		this.unobserve(removed);
+		this.publish({ group: removed, type: "groupRemoved" });
+	}
+
+	/**
+	 * Remove a role from the access control, along with its group memberships.
+	 * @param {Role | string} role - The role, or its code, to remove.
+	 */
+	removeRole(role: Role | string) {
+		const removed = typeof role === "string" ? this.getRoleByCode(role) : role;
+
+		if (!removed) {
+			return;
+		}
+
+		removed.resetGroup();
+		this.roles = this.roles.filter((_role) => _role !== removed);
+		this.unobserve(removed);
+		this.publish({ role: removed, type: "roleRemoved" });
+	}
+
+	/**
+	 * Revoke a delegation.
+	 * @param {IDelegation} delegation - The delegation to revoke.
+	 */
+	revokeDelegation(delegation: IDelegation) {
+		if (this.delegations.includes(delegation)) {
+			this.delegations = this.delegations.filter(
+				(_delegation) => _delegation !== delegation,
+			);
+			this.publish({ delegation, type: "delegationRevoked" });
+		}
+	}
+
+	/**
+	 * Find every role allowed to perform an action, and every role excluded from it by an `exclude` rule,
+	 * along with the role or group the responsible rule was defined on. The roles of the base policy are included.
+	 * The lookup is not recorded into the audit log nor the decision cache.
+	 * @param {string} type - The type of the action.
+	 * @param {object} parameters - The parameters of the action.
+	 * @param {IActionOptions} [options] - The options of the action, such as its context.
+	 * @returns {IRoleLookup} The allowed and excluded roles.
+	 *
+	 * @example
+	 * // Who can reach /admin/billing?
+	 * const { allowed, excluded } = accessControl.whoCan("navigation", { route: "/admin/billing" });
+	 */
+	whoCan(
+		type: string,
+		parameters: object,
+		options?: IActionOptions,
+	): IRoleLookup {
+		const scope: IEvaluationScope = {
+			now: this.getTime(),
+			permissions: new Map(),
+			roles: new Map(),
+			ruleEntries: new Map(),
+			uncached: true,
+		};
+		const lookup: IRoleLookup = { allowed: [], excluded: [] };
+
+		this.getRoleCodes().forEach((roleCode) => {
+			const action = new Action(roleCode, type, parameters, options);
+			const decision = this.resolveDecision(action, scope);
+
+			if (decision.status === "success") {
+				const permission = decision.permission!;
+				const { rule } = decision.message.details ?? {};
+				const entry = permission
+					.getRuleEntries()
+					.find((candidate) => candidate.rule === rule);
+
+				lookup.allowed.push({
+					decision,
+					origin: entry?.origin ?? permission.getTarget(),
+					permission,
+					role: decision.role!,
+					...(rule !== undefined && { rule }),
+				});
+				return;
+			}
+
+			this.lookupPermissions(action, scope).some((permission) => {
+				const evaluation = permission
+					.explainRules(action, scope.now)
+					.find(({ excluded }) => excluded);
+
+				if (evaluation) {
+					lookup.excluded.push({
+						decision,
+						origin: evaluation.origin,
+						permission,
+						role: decision.role!,
+						rule: evaluation.rule,
+					});
+				}
+
+				return !!evaluation;
+			});
+		});
+
+		return lookup;
+	}
+
+	/**
+	 * Check whether a role is allowed to impersonate other roles, by the access control or its base policy.
+	 * @param {string} roleCode - The code of the role.
+	 * @returns {boolean} True if the role is privileged.
+	 */
+	private canImpersonate(roleCode: string): boolean {
+		return (
+			!!this.options.impersonators?.includes(roleCode) ||
+			!!this.options.base?.canImpersonate(roleCode)
+		);
+	}
+
+	/**
+	 * Check whether an actor may perform an action on behalf of the role of the action.
+	 * @param {A extends Action} action - The action.
+	 * @param {IActor} actor - The actor of the action.
+	 * @param {Date} now - The time of the decision, against which delegations are checked.
+	 * @returns {IPermissionDecision<A> | undefined} The failed decision refusing the actor, or undefined if the actor may act.
+	 */
+	private checkActor<A extends Action>(
+		action: A,
+		actor: IActor,
+		now: Date,
+	): IPermissionDecision<A> | undefined {
+		const type = String(action.getType());
+		const allowed =
+			actor.mode === "impersonation"
+				? this.canImpersonate(actor.roleCode)
+				: this.getDelegations().some(
+						(delegation) =>
+							delegation.from === action.getRoleCode() &&
+							delegation.to === actor.roleCode &&
+							(!delegation.types || delegation.types.includes(type)) &&
+							getValidityStatus(delegation, now) === "active",
+					);
+
+		if (allowed) {
+			return undefined;
+		}
+
+		return {
+			action,
+			message: new PermissionMessage({
+				action,
+				code:
+					actor.mode === "impersonation"
+						? "IMPERSONATION_NOT_ALLOWED"
+						: "DELEGATION_NOT_FOUND",
+				messageKey:
+					actor.mode === "impersonation"
+						? "impersonationNotAllowed"
+						: "delegationNotFound",
+				messageParameters: {
+					actorRoleCode: actor.roleCode,
+					roleCode: action.getRoleCode(),
+					type,
+				},
+				status: "failed",
+			}),
+			permission: null,
+			status: "failed",
+		};
+	}
+
+	/**
+	 * Decide a batch of actions at the same time, sharing the lookups of their roles and permissions.
+	 * @param {T extends Action[] | Record<string, Action>} actions - The actions to decide, as an array or a record.
+	 * @param {boolean} record - Whether to record the decisions into the audit log and the decision cache.
+	 * @returns {DecisionMap<T>} The decision for each action, under the index or key of the action.
+	 */
+	private decideMany<T extends Action[] | Record<string, Action>>(
+		actions: T,
+		record: boolean,
+	): DecisionMap<T> {
+		const scope: IEvaluationScope = {
+			now: this.getTime(),
+			permissions: new Map(),
+			roles: new Map(),
+			ruleEntries: new Map(),
+			uncached: !record,
+		};
+		const decide = (action: Action) => {
+			const decision = this.resolveDecision(action, scope);
+
+			if (record) {
+				this.auditLog?.record(decision, scope.now, this.getLocale());
+			}
+
+			return decision;
+		};
+
+		if (Array.isArray(actions)) {
+			return actions.map(decide) as DecisionMap<T>;
+		}
+
+		return Object.fromEntries(
+			Object.entries(actions).map(([key, action]) => [key, decide(action)]),
+		) as DecisionMap<T>;
+	}
+
+	/**
+	 * Get the codes of the roles of the access control and of its base policy.
+	 * @returns {string[]} The role codes, the ones of the base policy first.
+	 */
+	private getRoleCodes(): string[] {
+		return [
+			...new Set([
+				...(this.options.base?.getRoleCodes() ?? []),
+				...this.roles.map((role) => role.getCode()),
+			]),
+		];
+	}
+
+	/**
+	 * Check whether the decision for an action can be cached, i.e. whether it depends on neither time nor
+	 * external state: no permission of its type is time-bound or has a rule with a function condition.
+	 * @param {Action} action - The action.
+	 * @param {IEvaluationScope} [scope] - Optional lookups shared with other actions.
+	 * @returns {boolean} True if the decision can be cached.
+	 */
+	private isCacheable(action: Action, scope?: IEvaluationScope): boolean {
+		return !this.lookupPermissions(action, scope).some(
+			(permission) =>
+				permission.isTimeBound() || permission.hasConditionPredicates(),
+		);
+	}
+
+	/**
+	 * Format the message of a decision in the locale of the access control.
+	 * Messages without a key, e.g. of custom permissions, are left as is.
+	 * @param {IPermissionDecision<A>} decision - The decision.
+	 * @returns {IPermissionDecision<A>} The decision, with its message formatted.
+	 */
+	private localize<A extends Action>(
+		decision: IPermissionDecision<A>,
+	): IPermissionDecision<A> {
+		const { message } = decision;
+		const locale = this.getLocale();
+
+		if (!message.messageKey || locale === defaultLocale) {
+			return decision;
+		}
+
+		return {
+			...decision,
+			message: new PermissionMessage({
+				...message,
+				message: formatMessage(
+					message.messageKey,
+					message.messageParameters,
+					locale,
+				),
+			}),
+		};
+	}
+
+	/**
+	 * Decide whether the role of a given action is allowed to perform it, from the cache when possible.
+	 * Decisions are cached regardless of the actor, which only decides whether the role can be acted for.
+	 * @param {A extends Action} action - The action to decide.
+	 * @param {IEvaluationScope} [scope] - Optional lookups shared with other actions.
+	 * @returns {IPermissionDecision<A>} The decision for the action.
+	 */
+	private lookupDecision<A extends Action>(
+		action: A,
+		scope?: IEvaluationScope,
+	): IPermissionDecision<A> {
+		const key =
+			this.cache && !scope?.uncached && this.isCacheable(action, scope)
+				? getCacheKey(action)
+				: undefined;
+
+		if (key === undefined) {
+			return this.evaluate(action, undefined, scope);
+		}
+
+		const cached = this.cache!.get(key);
+
+		if (cached) {
+			return {
+				...cached,
+				action,
+				message: new PermissionMessage({
+					...cached.message,
+					action,
+					actor: action.getActor(),
+				}),
+			};
+		}
+
+		const decision = this.evaluate(action, undefined, scope);
+
+		this.cache!.set(key, decision);
+
+		return decision;
+	}
+
+	/**
+	 * Get the permissions of the role of an action for its type, from the shared lookups when possible.
+	 * @param {Action} action - The action.
+	 * @param {IEvaluationScope} [scope] - Optional lookups shared with other actions.
+	 * @returns {Permission[]} The permissions.
+	 */
+	private lookupPermissions(
+		action: Action,
+		scope?: IEvaluationScope,
+	): Permission[] {
+		const roleCode = action.getRoleCode();
+		const type = String(action.getType());
+		const key = JSON.stringify([roleCode, type]);
+		let permissions = scope?.permissions.get(key);
+
+		if (!permissions) {
+			permissions = this.getRolePermissions(roleCode, type);
+			scope?.permissions.set(key, permissions);
+		}
+
+		return permissions;
+	}
+
+	/**
+	 * Resolve the role of an action, from the shared lookups when possible.
+	 * @param {Action} action - The action.
+	 * @param {IEvaluationScope} [scope] - Optional lookups shared with other actions.
+	 * @returns {Role | undefined} The role, or undefined if not found.
+	 */
+	private lookupRole(
+		action: Action,
+		scope?: IEvaluationScope,
+	): Role | undefined {
+		const roleCode = action.getRoleCode();
+
+		if (scope?.roles.has(roleCode)) {
+			return scope.roles.get(roleCode);
+		}
+
+		const role = this.resolveRole(roleCode);
+
+		scope?.roles.set(roleCode, role);
+
+		return role;
+	}
+
+	/**
+	 * Observe the mutations of a role or group, and of the groups it inherits from.
+	 * @param {Group | Role} node - The role or group to observe.
+	 */
+	private observe(node: Group | Role) {
+		if (this.observed.has(node)) {
+			return;
+		}
+
+		this.observed.set(
+			node,
+			node.subscribe((event) => {
+				if (event.type === "roleGroupAssigned") {
+					this.observe(event.group);
+				} else if (
+					event.type === "groupInheritanceChanged" &&
+					event.inheritFrom
+				) {
+					this.observe(event.inheritFrom);
+				}
+
+				this.publish(event);
+			}),
+		);
+
+		const inheritedGroups =
+			node instanceof Role ? node.getInheritanceChain() : node.getAncestors();
+		inheritedGroups.forEach((group) => {
+			this.observe(group);
+		});
+	}
+
+	/**
+	 * Publish a policy event, incrementing the policy version.
+	 * @param {PolicyEvent} event - The event to publish.
+	 */
+	private publish(event: PolicyEvent) {
+		this.version++;
+		this.cache?.clear();
+		this.events.emit(event);
+	}
+
+	/**
+	 * Decide whether a given action is allowed, checking its actor first. The rule entries of the permissions
+	 * are flattened once per scope, and reused by every step of the evaluation.
+	 * @param {A extends Action} action - The action to decide.
+	 * @param {IEvaluationScope} [scope] - Optional lookups shared with other actions.
+	 * @returns {IPermissionDecision<A>} The decision for the action, carrying its actor.
+	 */
+	private resolveDecision<A extends Action>(
+		action: A,
+		scope: IEvaluationScope = {
+			now: this.getTime(),
+			permissions: new Map(),
+			roles: new Map(),
+			ruleEntries: new Map(),
+		},
+	): IPermissionDecision<A> {
+		const actor = action.getActor();
+		const previousEntries = memoizedRuleEntries;
+
+		memoizedRuleEntries = scope.ruleEntries;
+
+		try {
+			if (!actor) {
+				return this.localize(this.lookupDecision(action, scope));
+			}
+
+			const decision =
+				this.checkActor(action, actor, scope.now) ??
+				this.lookupDecision(action, scope);
+
+			return { ...this.localize(decision), actor };
+		} finally {
+			memoizedRuleEntries = previousEntries;
+		}
+	}
+
+	/**
+	 * Resolve a role code against the access control, then against its base policy.
+	 * @param {string} roleCode - The code of the role.
+	 * @returns {Role | undefined} The role, or undefined if neither policy defines it.
+	 */
+	private resolveRole(roleCode: string): Role | undefined {
+		return (
+			this.getRoleByCode(roleCode) ?? this.options.base?.resolveRole(roleCode)
+		);
+	}
+
+	/**
+	 * Stop observing the mutations of a role or group.
+	 * @param {Group | Role} node - The role or group to stop observing.
+	 */
+	private unobserve(node: Group | Role) {
+		this.observed.get(node)?.();
+		this.observed.delete(node);
+	}
+
+	/**
+	 * Evaluate an action, recording the steps of the evaluation when a trace is requested.
+	 * @param {A extends Action} action - The action to evaluate.
+	 * @param {DecisionTraceStep[]} [steps] - Optional list receiving the trace steps.
+	 * @param {IEvaluationScope} [scope] - Optional lookups shared with other actions, and their evaluation time.
+	 * @returns {IPermissionDecision<A>} The decision for the action.
+	 */
+	private evaluate<A extends Action>(
+		action: A,
+		steps?: DecisionTraceStep[],
+		scope?: IEvaluationScope,
+	): IPermissionDecision<A> {
+		const now = scope?.now ?? this.getTime();
 		const roleCode = action.getRoleCode();
-		const role = this.getRoleByCode(roleCode);
+		const role = this.lookupRole(action, scope);
+
+		steps?.push({ role, roleCode, step: "role-lookup" });
 
 		if (!role) {
-			if (callbacks.onFailure) {
-				callbacks.onFailure(action, null, {
+			return {
+				action,
+				message: new PermissionMessage({
 					action,
-					message: "Role not found.",
+					code: "ROLE_NOT_FOUND",
+					messageKey: "roleNotFound",
+					messageParameters: { roleCode },
 					status: "failed",
-				});
-			}
-			return;
+				}),
+				permission: null,
+				status: "failed",
+			};
 		}
 
-		const matchingPermissions = role.getPermissions(action.getType());
+		const matchingPermissions = this.lookupPermissions(action, scope);
 
 		if (matchingPermissions.length === 0) {
-			if (callbacks.onFailure) {
-				callbacks.onFailure(action, null, {
+			steps?.push({ permissions: [], step: "permissions" });
+			return {
+				action,
+				message: new PermissionMessage({
 					action,
-					message: "No matching permissions found.",
+					code: "NO_PERMISSION_FOR_TYPE",
+					messageKey: "noPermissionForType",
+					messageParameters: { roleCode, type: String(action.getType()) },
 					status: "failed",
 					target: role,
-				});
-			}
-			return;
+				}),
+				permission: null,
+				role,
+				status: "failed",
+			};
 		}
 
-		// Only the last permission is checked, since the rules are combined in the permission class
-		const permission = matchingPermissions.at(-1);
-		const result = permission!.validate(action);
-		if (result instanceof PermissionMessage && result.status === "failed") {
-			if (callbacks.onFailure) {
-				callbacks.onFailure(action, permission!, result);
-			}
-			return;
-		}
+		const results: IPermissionResult[] = matchingPermissions
+			.filter((permission) => permission.isApplicable(action, now))
+			.map((permission) => ({
+				message: permission.validate(action, now),
+				permission,
+			}));
+		const algorithm = this.getCombiningAlgorithm(action.getType());
+		const { message, permission } = combinePermissionResults(
+			results,
+			algorithm,
+		) ?? {
+			// None of the permissions applies, the last one explains the failure
+			message: matchingPermissions.at(-1)!.validate(action, now),
+			permission: matchingPermissions.at(-1)!,
+		};
 
-		callbacks.onSuccess(action, permission!);
-	}
+		if (steps) {
+			steps.push({
+				permissions: matchingPermissions.map((candidate) => {
+					const result = results.find(
+						({ permission }) => permission === candidate,
+					);
 
-	/**
-	 * Get a role by its code.
-	 * @param {string} roleCode - The code of the role to retrieve.
-	 * @returns {Role | undefined} The role associated with the code, or undefined if not found.
-	 */
-	getRoleByCode(roleCode: string) {
-		return this.roles.find((role) => role.getCode() === roleCode);
-	}
+					return {
+						applicable: !!result,
+						message: result ? result.message : undefined,
+						permission: candidate,
+						rules: candidate.explainRules(action, now),
+					};
+				}),
+				step: "permissions",
+			});
+			steps.push({ algorithm, permission, step: "combination" });
+		}
 
-	/**
-	 * Get all roles associated with this access control.
-	 * @returns {Role[]} An array of roles.
-	 */
-	getRoles() {
-		return this.roles;
-	}
+		if (message?.status === "failed") {
+			return {
+				action,
+				message,
+				permission,
+				role,
+				status: "failed",
+			};
+		}
 
-	/**
-	 * Get all groups associated with this access control.
-	 * @returns {Group[]} An array of groups.
-	 */
-	getGroups() {
-		return this.groups;
-	}
+		// The permission's own rules come last, so the most specific matched rule decides the action
+		const matched = permission
+			.explainRules(action, now)
+			.findLast(({ excluded, matched }) => matched && !excluded);
 
-	/**
-	 * Get a group by its code.
-	 * @param {string} groupCode - The code of the group to retrieve.
-	 * @returns {Group | undefined} The group associated with the code, or undefined if not found.
-	 */
-	getGroupByCode(groupCode: string) {
-		return this.groups.find((group) => group.getCode() === groupCode);
+		return {
+			action,
+			message: new PermissionMessage({
+				action,
+				code: "ALLOWED",
+				details: matched ? { rule: matched.rule } : {},
+				status: "success",
+				target: permission.getTarget(),
+			}),
+			permission,
+			role,
+			status: "success",
+		};
 	}
 }
 
@@ -183,13 +1403,39 @@ export class Action<T = string, P = object> {
 	 * @param {string} roleCode - The code of the role associated with the action.
 	 * @param {T} type - The type of the action.
 	 * @param {P} parameters - The parameters associated with the action.
+	 * @param {IActionOptions} [options] - The options of the action, such as its context.
 	 */
 	constructor(
 		protected roleCode: string,
 		protected type: T,
 		protected parameters: P,
+		protected options: IActionOptions = {},
 	) {}
 
+	/**
+	 * Get the identity performing the action on behalf of its role.
+	 * @returns {IActor | undefined} The actor, or undefined if the role performs the action itself.
+	 */
+	getActor(): IActor | undefined {
+		return this.options.actor;
+	}
+
+	/**
+	 * Get the context of the action, evaluated by the conditions of the rules.
+	 * @returns {IActionContext} The context, empty if none was given.
+	 */
+	getContext(): IActionContext {
+		return this.options.context ?? {};
+	}
+
+	/**
+	 * Get the tenant performing the action.
+	 * @returns {string | undefined} The tenant id, or undefined if the action is not scoped to a tenant.
+	 */
+	getTenantId(): string | undefined {
+		return this.options.tenantId;
+	}
+
 	/**
 	 * Get the parameters of the action.
 	 * @returns {P} The parameters.
@@ -220,12 +1466,20 @@ export class Action<T = string, P = object> {
  * @template C
  */
 export class Group<C extends string = string> {
+	private events = new PolicyEventEmitter();
 	private permissions: Permission[] = [];
 	private roles: Role[] = [];
+	/**
+	 * @param {C} code - The code of the group.
+	 * @param {Group} [inheritFrom] - Optional group to inherit permissions from.
+	 * @throws {Error} If the inheritance forms a cycle.
+	 */
 	constructor(
 		protected code: C,
 		protected inheritFrom?: Group,
-	) {}
+	) {
+		assertNoInheritanceCycle(this, inheritFrom);
+	}
 	/**
 	 * Assign a permission to the group.
 	 * @param {Permission} permission - The permission to assign.
@@ -233,23 +1487,39 @@ export class Group<C extends string = string> {
 	assignPermission(permission: Permission): void {
 		if (!this.permissions.includes(permission)) {
 			this.permissions.push(permission);
+			this.notifyChange({
+				permission,
+				target: this,
+				type: "permissionAssigned",
+			});
 		}
 	}
 	/**
-	 * Assign a role to the group.
+	 * Assign a role to the group. A strict role is moved out of its current group.
 	 * @param {Role} role - The role to assign.
 	 */
 	assignRole(role: Role): void {
-		const group = role.getGroup();
-		if (group) {
-			group.excludeRole(role);
-			role.resetGroup();
-		}
+		const previousGroups = role.isStrict()
+			? role.getGroups().filter((group) => group !== this)
+			: [];
 
-		if (!this.roles.includes(role) && !role.getGroup()) {
+		previousGroups.forEach((group) => {
+			role.removeGroup(group);
+		});
+
+		if (!this.roles.includes(role)) {
 			this.roles.push(role);
 			role.assignGroup(this);
 		}
+
+		previousGroups.forEach((group) => {
+			role.notifyChange({
+				from: group,
+				role,
+				to: this,
+				type: "roleMovedGroup",
+			});
+		});
 	}
 	/**
 	 * Exclude a role from the group.
@@ -258,6 +1528,21 @@ export class Group<C extends string = string> {
 	excludeRole(role: Role) {
 		this.roles = this.roles.filter((_role) => _role !== role);
 	}
+	/**
+	 * Get the groups this group inherits from, transitively, starting with the nearest one.
+	 * @returns {Group[]} An array of ancestor groups.
+	 */
+	getAncestors(): Group[] {
+		const ancestors: Group[] = [];
+		let ancestor = this.inheritFrom;
+
+		while (ancestor && ancestor !== this && !ancestors.includes(ancestor)) {
+			ancestors.push(ancestor);
+			ancestor = ancestor.getInheritFrom();
+		}
+
+		return ancestors;
+	}
 	/**
 	 * Get the code of the group.
 	 * @returns {C} The code.
@@ -284,6 +1569,13 @@ export class Group<C extends string = string> {
 	getRoles(): Role[] {
 		return this.roles;
 	}
+	/**
+	 * Notify the subscribers of a change to the group or to one of its permissions.
+	 * @param {PolicyEvent} event - The event describing the change.
+	 */
+	notifyChange(event: PolicyEvent) {
+		this.events.emit(event);
+	}
 	/**
 	 * Inherit permissions and roles from another group.
 	 * @param {Group} group - The group to inherit from.
@@ -291,6 +1583,102 @@ export class Group<C extends string = string> {
 	getInheritFrom() {
 		return this.inheritFrom;
 	}
+	/**
+	 * Revoke a permission from the group.
+	 * @param {Permission} permission - The permission to revoke.
+	 */
+	revokePermission(permission: Permission) {
+		if (this.permissions.includes(permission)) {
+			this.permissions = this.permissions.filter(
+				(_permission) => _permission !== permission,
+			);
+			this.notifyChange({
+				permission,
+				target: this,
+				type: "permissionRevoked",
+			});
+		}
+	}
+	/**
+	 * Remove a role from the group, updating the role's memberships as well.
+	 * @param {Role} role - The role to remove.
+	 */
+	removeRole(role: Role) {
+		if (this.roles.includes(role)) {
+			this.excludeRole(role);
+			role.removeGroup(this);
+		}
+	}
+	/**
+	 * Set the group to inherit permissions from.
+	 * @param {Group | undefined} inheritFrom - The group to inherit from, or undefined to stop inheriting.
+	 * @throws {Error} If the inheritance forms a cycle.
+	 */
+	setInheritFrom(inheritFrom?: Group) {
+		assertNoInheritanceCycle(this, inheritFrom);
+		this.inheritFrom = inheritFrom;
+		this.notifyChange({
+			group: this,
+			inheritFrom,
+			type: "groupInheritanceChanged",
+		});
+	}
+	/**
+	 * Subscribe a listener to the changes of the group and of its permissions.
+	 * @param {PolicyEventListener} listener - The listener to subscribe.
+	 * @returns {function(): void} A function unsubscribing the listener.
+	 */
+	subscribe(listener: PolicyEventListener): () => void {
+		return this.events.subscribe(listener);
+	}
+}
+
+/**
+ * Assert that inheriting from a group doesn't form an inheritance cycle.
+ * @param {Group} group - The inheriting group.
+ * @param {Group} [inheritFrom] - The group to inherit from.
+ * @throws {Error} If the inheritance forms a cycle, naming the groups in it.
+ */
+function assertNoInheritanceCycle(group: Group, inheritFrom?: Group) {
+	const visited: Group[] = [group];
+	let ancestor = inheritFrom;
+
+	while (ancestor) {
+		if (visited.includes(ancestor)) {
+			const cycle = [...visited, ancestor].map((member) => member.getCode());
+
+			throw new Error(
+				`group inheritance cycle detected: ${cycle.join(" -> ")}`,
+			);
+		}
+
+		visited.push(ancestor);
+		ancestor = ancestor.getInheritFrom();
+	}
+}
+
+/**
+ * The rule entries of the permissions, memoized while a scope of decisions is being evaluated.
+ */
+let memoizedRuleEntries: Map<Permission, IRuleEntry<unknown>[]> | undefined;
+
+/**
+ * Get the key caching the decision of an action.
+ * @param {Action} action - The action.
+ * @returns {string | undefined} The key, or undefined if the parameters of the action can't be serialized.
+ */
+function getCacheKey(action: Action): string | undefined {
+	try {
+		return JSON.stringify([
+			action.getRoleCode(),
+			action.getType(),
+			action.getParameters(),
+			action.getContext(),
+			action.getTenantId(),
+		]);
+	} catch {
+		return undefined;
+	}
 }
 
 /**
@@ -301,6 +1689,7 @@ export class Group<C extends string = string> {
 
 export abstract class Permission<T = string, R extends unknown[] = unknown[]> {
 	rules: R;
+	protected validity?: IValidity;
 	/**
 	 * @param {Group | Role} target - The target of the permission (group or role).
 	 * @param {T} type - The type of the permission.
@@ -323,34 +1712,108 @@ export abstract class Permission<T = string, R extends unknown[] = unknown[]> {
 	 */
 	addRule(rule: R[number]): this {
 		this.rules.push(rule);
+		this.target.notifyChange({
+			permission: this as unknown as Permission,
+			rules: [rule],
+			type: "ruleAdded",
+		});
+		return this;
+	}
+
+	/**
+	 * Detach the permission from its target, revoking it from the role or group.
+	 * @returns {this} The current instance for chaining.
+	 */
+	detach(): this {
+		this.target.revokePermission(this as unknown as Permission);
+		return this;
+	}
+
+	/**
+	 * Check whether the permission is still attached to its target.
+	 * @returns {boolean} True if the permission is attached.
+	 */
+	isAttached(): boolean {
+		return this.target.getPermissions().includes(this as unknown as Permission);
+	}
+
+	/**
+	 * Remove the rules matching a predicate from the permission. Inherited rules are not affected.
+	 * @param {function(R[number], number): boolean} predicate - Returns true for the rules to remove.
+	 * @returns {this} The current instance for chaining.
+	 */
+	removeRule(predicate: (rule: R[number], index: number) => boolean): this {
+		const removed = this.rules.filter((rule, index) => predicate(rule, index));
+
+		if (removed.length > 0) {
+			const kept = this.rules.filter((rule) => !removed.includes(rule));
+			this.rules.splice(0, this.rules.length, ...kept);
+			this.target.notifyChange({
+				permission: this as unknown as Permission,
+				rules: removed,
+				type: "ruleRemoved",
+			});
+		}
 		return this;
 	}
 
+	/**
+	 * Explain how each rule of the permission is evaluated against an action.
+	 * Permission types describe their rule matching by overriding this method, the default
+	 * implementation reports every rule as not matched.
+	 * @param {Action} action - The action to evaluate the rules against.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {IRuleEvaluation<R[number]>[]} The evaluation of each rule, including inherited rules.
+	 */
+	explainRules(action: Action, now?: Date): IRuleEvaluation<R[number]>[] {
+		const skipped = action.getType() !== this.type;
+
+		return this.getRuleEntries().map((entry) => ({
+			...entry,
+			excluded: false,
+			matched: false,
+			skipped,
+		}));
+	}
+
+	/**
+	 * Get the rules associated with the permission along with the role or group they were defined on,
+	 * including inherited rules from parent groups. The entries are flattened once per batch of decisions.
+	 * @returns {IRuleEntry<R[number]>[]} An array of rule entries.
+	 */
+	getRuleEntries(): IRuleEntry<R[number]>[] {
+		const memoized = memoizedRuleEntries?.get(this as unknown as Permission);
+
+		if (memoized) {
+			return memoized as IRuleEntry<R[number]>[];
+		}
+
+		// Rules of the farthest ancestor come first, the permission's own rules come last
+		const inheritedEntries = this.getInheritedGroups().flatMap((group) =>
+			group
+				.getPermissions(this.type as string)
+				.flatMap((permission) =>
+					permission.rules.map((rule) => ({ origin: group, rule })),
+				),
+		);
+		const ownEntries = this.rules.map((rule) => ({
+			origin: this.target,
+			rule,
+		}));
+
+		const entries = [...inheritedEntries, ...ownEntries];
+
+		memoizedRuleEntries?.set(this as unknown as Permission, entries);
+
+		return entries;
+	}
+
 	/**
 	 * Get the rules associated with the permission, including inherited rules from parent groups.
 	 * @returns {R[]} An array of rules.
 	 */
 	getRules(): R {
-		let combinedRules = [];
-		if (this.target instanceof Role && this.target.getGroup()) {
-			const inheritedRules = this.target
-				.getGroup()!
-				.getPermissions(this.type as string)
-				.map((permission) => permission.getRules())
-				.flat();
-			combinedRules = [...inheritedRules, ...this.rules];
-		} else if (this.target instanceof Group && this.target.getInheritFrom()) {
-			const inheritedRules = this.target
-				.getInheritFrom()!
-				.getPermissions(this.type as string)
-				.map((permission) => permission.getRules())
-				.flat();
-			combinedRules = [...inheritedRules, ...this.rules];
-		} else {
-			combinedRules = [...this.rules];
-		}
-
-		return combinedRules as R;
+		return this.getRuleEntries().map(({ rule }) => rule) as R;
 	}
 
 	/**
@@ -361,6 +1824,51 @@ export abstract class Permission<T = string, R extends unknown[] = unknown[]> {
 		return this.target;
 	}
 
+	/**
+	 * Get the period during which the whole permission is in effect.
+	 * @returns {IValidity | undefined} The validity, or undefined if the permission is not time-bound.
+	 */
+	getValidity(): IValidity | undefined {
+		return this.validity;
+	}
+
+	/**
+	 * Check whether any rule of the permission, including inherited ones, has a function condition.
+	 * Unlike condition expressions, functions may read external state, so their results can't be cached.
+	 * @returns {boolean} True if decisions made with the permission may depend on external state.
+	 */
+	hasConditionPredicates(): boolean {
+		return this.getRuleEntries().some(
+			({ rule }) =>
+				typeof (rule as { condition?: unknown }).condition === "function",
+		);
+	}
+
+	/**
+	 * Check whether the permission, or any of its rules including inherited ones, is time-bound.
+	 * @returns {boolean} True if decisions made with the permission depend on time.
+	 */
+	isTimeBound(): boolean {
+		return this.getRuleEntries().some(
+			(entry) => this.getEntryValidities(entry).length > 0,
+		);
+	}
+
+	/**
+	 * Set the period during which the whole permission is in effect, outside of which it doesn't apply to any action.
+	 * @param {IValidity} [validity] - The validity, or undefined to remove it.
+	 * @returns {this} The current instance for chaining.
+	 */
+	setValidity(validity?: IValidity): this {
+		this.validity = validity;
+		this.target.notifyChange({
+			permission: this as unknown as Permission,
+			type: "permissionValidityChanged",
+			validity,
+		});
+		return this;
+	}
+
 	/**
 	 * Get the type of the permission.
 	 * @returns {T} The type.
@@ -370,30 +1878,208 @@ export abstract class Permission<T = string, R extends unknown[] = unknown[]> {
 	}
 
 	/**
-	 * Retrieves the rules inherited from a parent group if the target is a group and inheritance is enabled.
-	 * This method checks if the target is a `Group` instance and if it has a parent group (`inheritFrom`).
-	 * If so, it collects the rules from the parent group's permissions of the same type and returns them.
-	 * If no inheritance is found, it returns an empty array.
+	 * Retrieves the rules inherited from ancestor groups if the target is a group and inheritance is enabled.
+	 * This method checks if the target is a `Group` instance and walks its whole `inheritFrom` chain.
+	 * It collects the rules from the ancestor groups' permissions of the same type and returns them,
+	 * starting with the farthest ancestor. If no inheritance is found, it returns an empty array.
 	 *
-	 * @returns {R} An array of rules inherited from the parent group, or an empty array if no inheritance exists.
+	 * @returns {R} An array of rules inherited from the ancestor groups, or an empty array if no inheritance exists.
 	 */
 	getRulesByGroupInheritance(): R {
-		if (this.target instanceof Group && this.target.getInheritFrom()) {
-			const inheritedPermissions =
-				this.target.getInheritFrom()?.getPermissions(this.type as string) || [];
-			return inheritedPermissions
-				.map((permission) => permission.getRules())
-				.flat() as R;
+		if (this.target instanceof Group) {
+			return this.getInheritedGroups()
+				.flatMap((group) => group.getPermissions(this.type as string))
+				.flatMap((permission) => permission.rules) as R;
 		}
 		return [] as unknown as R;
 	}
 
+	/**
+	 * Get the groups the rules of the permission are inherited from, in ascending precedence.
+	 * @returns {Group[]} An array of groups.
+	 */
+	private getInheritedGroups(): Group[] {
+		if (this.target instanceof Role) {
+			return this.target.getInheritanceChain();
+		}
+
+		return this.target.getAncestors().reverse();
+	}
+
+	/**
+	 * Check whether the permission applies to an action, i.e. whether any of its rules matches it.
+	 * Permissions that don't apply are skipped when the results are combined.
+	 * @param {Action} action - The action to check.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {boolean} True if the permission applies, by default when the types match and the permission is in effect.
+	 */
+	isApplicable(action: Action, now = new Date()): boolean {
+		return (
+			action.getType() === this.type &&
+			(!this.validity || getValidityStatus(this.validity, now) === "active")
+		);
+	}
+
 	/**
 	 * Validate an action against the permission.
 	 * @param {Action} action - The action to validate.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
 	 * @returns {IPermissionMessage | undefined} The validation message or undefined if valid.
 	 */
-	abstract validate(action: Action): IPermissionMessage | undefined;
+	abstract validate(action: Action, now?: Date): IPermissionMessage | undefined;
+
+	/**
+	 * Check whether a rule is in effect, given its validity and the validity of the permission declaring it.
+	 * @param {IRuleEntry<R[number]>} entry - The rule and the role or group it was defined on.
+	 * @param {Date} now - The time of the evaluation.
+	 * @returns {ValidityStatus | undefined} The first status other than `active`, or undefined if the rule is not time-bound.
+	 */
+	protected checkRuleValidity(
+		entry: IRuleEntry<R[number]>,
+		now: Date,
+	): undefined | ValidityStatus {
+		const statuses = this.getEntryValidities(entry).map((validity) =>
+			getValidityStatus(validity, now),
+		);
+
+		return statuses.length === 0
+			? undefined
+			: (statuses.find((status) => status !== "active") ?? "active");
+	}
+
+	/**
+	 * Create the failure message of an action no rule of the permission allows, coded after the first
+	 * reason found: an excluding rule, an expiry, an unmet condition, then a rule or permission not in effect.
+	 * @param {Action} action - The denied action.
+	 * @param {Date} now - The time of the evaluation.
+	 * @param {MessageKey} messageKey - The key of the message of the failure, unless it is caused by an expiry.
+	 * @param {MessageParameters} messageParameters - The parameters of the message, besides the permission type.
+	 * @param {string} [identifier] - The requested identifier, e.g. the route or component of the action.
+	 * @returns {PermissionMessage} The message.
+	 */
+	protected createDenialMessage(
+		action: Action,
+		now: Date,
+		messageKey: MessageKey,
+		messageParameters: MessageParameters,
+		identifier?: string,
+	): PermissionMessage {
+		const evaluations = this.explainRules(action, now);
+		const excluded = evaluations.find(({ excluded }) => excluded);
+		const expiry = excluded
+			? undefined
+			: this.createExpiryMessage(action, now, identifier);
+
+		if (expiry) {
+			return expiry;
+		}
+
+		// Exclude rules that are not in effect don't deny anything, so they are not the reason of the failure
+		const allowing = evaluations.filter(
+			({ rule }) => !(rule as { exclude?: boolean }).exclude,
+		);
+		const unmet = allowing.find(({ conditionMet }) => conditionMet === false);
+		const inactive = allowing.find(
+			({ validity }) => validity !== undefined && validity !== "active",
+		);
+		const [code, rule]: [PermissionMessageCode, unknown] = excluded
+			? ["RULE_EXCLUDED", excluded.rule]
+			: unmet
+				? ["CONDITION_FAILED", unmet.rule]
+				: inactive
+					? ["RULE_INACTIVE", inactive.rule]
+					: this.validity && getValidityStatus(this.validity, now) !== "active"
+						? ["RULE_INACTIVE", undefined]
+						: ["NO_MATCHING_RULE", undefined];
+
+		return new PermissionMessage({
+			action,
+			code,
+			details: {
+				...(identifier !== undefined && { identifier }),
+				...(rule !== undefined && { rule }),
+			},
+			messageKey,
+			messageParameters: { ...messageParameters, type: String(this.type) },
+			status: "failed",
+			target: this.target,
+		});
+	}
+
+	/**
+	 * Create the failure message of an action denied because the permission, or the rule that
+	 * would have allowed it, expired.
+	 * @param {Action} action - The denied action.
+	 * @param {Date} now - The time of the evaluation.
+	 * @param {string} [identifier] - The requested identifier, reported in the details of the message.
+	 * @returns {PermissionMessage | undefined} The message, or undefined if the action was not denied by an expiry.
+	 */
+	protected createExpiryMessage(
+		action: Action,
+		now: Date,
+		identifier?: string,
+	): PermissionMessage | undefined {
+		const [expired, rule] =
+			this.validity && getValidityStatus(this.validity, now) === "expired"
+				? [this.validity, undefined]
+				: (this.explainRules(action, now)
+						.filter(
+							({ rule, validity }) =>
+								validity === "expired" &&
+								!(rule as { exclude?: boolean }).exclude,
+						)
+						.flatMap((entry) =>
+							this.getEntryValidities(entry).map(
+								(validity) => [validity, entry.rule] as const,
+							),
+						)
+						.find(
+							([validity]) => getValidityStatus(validity, now) === "expired",
+						) ?? []);
+
+		if (expired) {
+			const validUntil = toDate(expired.validUntil!);
+
+			return new PermissionMessage({
+				action,
+				code: "RULE_EXPIRED",
+				details: {
+					...(identifier !== undefined && { identifier }),
+					...(rule !== undefined && { rule }),
+					validUntil,
+				},
+				messageKey: "ruleExpired",
+				messageParameters: {
+					type: String(this.type),
+					validUntil: validUntil.toISOString(),
+				},
+				status: "failed",
+				target: this.target,
+			});
+		}
+	}
+
+	/**
+	 * Get the validities a rule is subject to: the validity of the permission declaring it, then its own.
+	 * @param {IRuleEntry<R[number]>} entry - The rule and the role or group it was defined on.
+	 * @returns {IValidity[]} The validities, empty if the rule is not time-bound.
+	 */
+	private getEntryValidities({
+		origin,
+		rule,
+	}: IRuleEntry<R[number]>): IValidity[] {
+		// The own rules of the permission are declared by it, sparing the lookup of the permissions of its target
+		const declaring =
+			origin === this.target
+				? this
+				: origin
+						.getPermissions(this.type as string)
+						.find((permission) => permission.rules.includes(rule));
+
+		return [declaring?.getValidity(), getValidity(rule)].filter(
+			(validity): validity is IValidity => validity !== undefined,
+		);
+	}
 }
 
 /**
@@ -402,25 +2088,39 @@ export abstract class Permission<T = string, R extends unknown[] = unknown[]> {
  * @template T
  */
 export class Role<C extends string = string, T = unknown> {
-	private group?: Group;
+	private events = new PolicyEventEmitter();
+	private groups: Group[] = [];
 	private permissions: Permission[] = [];
+	/**
+	 * @param {C} code - The code of the role.
+	 * @param {T} [config] - Optional configuration of the role.
+	 * @param {IRoleOptions} [options] - Optional options of the role.
+	 */
 	constructor(
 		protected code: C,
 		protected config?: T,
+		protected options: IRoleOptions = {},
 	) {}
 
 	/**
-	 * Assign a group to the role.
+	 * Assign a group to the role. In strict mode a role can only belong to a single group.
 	 * @param {Group} group - The group to assign.
+	 * @throws {Error} If the role is strict and already belongs to another group.
 	 */
 	assignGroup(group: Group) {
-		if (!this.group) {
-			this.group = group;
-		} else {
+		if (this.groups.includes(group)) {
+			return;
+		}
+
+		if (this.options.strict && this.groups.length > 0) {
 			throw new Error(
-				`role ${this.code} has already assigned to another group: ${this.group.getCode()}`,
+				`role ${this.code} has already assigned to another group: ${this.groups[0].getCode()}`,
 			);
 		}
+
+		this.groups.push(group);
+		group.assignRole(this);
+		this.notifyChange({ group, role: this, type: "roleGroupAssigned" });
 	}
 
 	/**
@@ -428,14 +2128,16 @@ export class Role<C extends string = string, T = unknown> {
 	 * @param {Permission} permission - The permission to assign.
 	 */
 	assignPermission(permission: Permission) {
-		if (!this.permissions.includes(permission)) {
-			if (this.group) {
-				if (!this.group.getPermissions().includes(permission)) {
-					this.permissions.push(permission);
-				}
-			} else {
-				this.permissions.push(permission);
-			}
+		if (
+			!this.permissions.includes(permission) &&
+			!this.groups.some((group) => group.getPermissions().includes(permission))
+		) {
+			this.permissions.push(permission);
+			this.notifyChange({
+				permission,
+				target: this,
+				type: "permissionAssigned",
+			});
 		}
 	}
 
@@ -456,15 +2158,38 @@ export class Role<C extends string = string, T = unknown> {
 	}
 
 	/**
-	 * Get the group associated with the role.
+	 * Get the first group associated with the role.
 	 * @returns {Group | undefined} The group or undefined if not assigned.
 	 */
 	getGroup() {
-		return this.group;
+		return this.groups.at(0);
+	}
+
+	/**
+	 * Get all groups associated with the role, in the order they were assigned.
+	 * @returns {Group[]} An array of groups.
+	 */
+	getGroups(): Group[] {
+		return this.groups;
+	}
+
+	/**
+	 * Get the groups the role inherits rules from, including their ancestors, in ascending precedence.
+	 * Groups assigned later take precedence over groups assigned earlier, and each group takes
+	 * precedence over its ancestors. A group shared by several chains is only listed once.
+	 * @returns {Group[]} An array of groups.
+	 */
+	getInheritanceChain(): Group[] {
+		const chain = this.groups.flatMap((group) => [
+			...group.getAncestors().reverse(),
+			group,
+		]);
+
+		return chain.filter((group, index) => chain.indexOf(group) === index);
 	}
 
 	/**
-	 * Get permissions associated with the role.
+	 * Get permissions associated with the role, including the permissions of its groups and their ancestors.
 	 * @param {string} [type] - Optional type to filter permissions.
 	 * @returns {Permission[]} An array of permissions.
 	 */
@@ -474,17 +2199,82 @@ export class Role<C extends string = string, T = unknown> {
 					(permission) => permission.getType() === type,
 				) as P[])
 			: (this.permissions as P[]);
-		const groupPermissions = this.group
-			? (this.group.getPermissions(type) as P[])
-			: [];
+		const groupPermissions = this.getInheritanceChain().flatMap((group) =>
+			group.getPermissions<P>(type),
+		);
 
 		return [...groupPermissions, ...rolePermissions];
 	}
 
 	/**
-	 * Reset the group associated with the role.
+	 * Check whether the role belongs to a group.
+	 * @param {Group} group - The group to check.
+	 * @returns {boolean} True if the role belongs to the group.
+	 */
+	hasGroup(group: Group): boolean {
+		return this.groups.includes(group);
+	}
+
+	/**
+	 * Check whether the role is in strict mode, i.e. can only belong to a single group.
+	 * @returns {boolean} True if the role is strict.
+	 */
+	isStrict(): boolean {
+		return !!this.options.strict;
+	}
+
+	/**
+	 * Notify the subscribers of a change to the role or to one of its permissions.
+	 * @param {PolicyEvent} event - The event describing the change.
+	 */
+	notifyChange(event: PolicyEvent) {
+		this.events.emit(event);
+	}
+
+	/**
+	 * Remove the role from a group.
+	 * @param {Group} group - The group to remove.
+	 */
+	removeGroup(group: Group) {
+		if (this.groups.includes(group)) {
+			this.groups = this.groups.filter((_group) => _group !== group);
+			group.removeRole(this);
+			this.notifyChange({ group, role: this, type: "roleGroupRemoved" });
+		}
+	}
+
+	/**
+	 * Revoke a permission from the role.
+	 * @param {Permission} permission - The permission to revoke.
+	 */
+	revokePermission(permission: Permission) {
+		if (this.permissions.includes(permission)) {
+			this.permissions = this.permissions.filter(
+				(_permission) => _permission !== permission,
+			);
+			this.notifyChange({
+				permission,
+				target: this,
+				type: "permissionRevoked",
+			});
+		}
+	}
+
+	/**
+	 * Reset the groups associated with the role.
 	 */
 	resetGroup() {
-		this.group = undefined;
+		[...this.groups].forEach((group) => {
+			this.removeGroup(group);
+		});
+	}
+
+	/**
+	 * Subscribe a listener to the changes of the role and of its permissions.
+	 * @param {PolicyEventListener} listener - The listener to subscribe.
+	 * @returns {function(): void} A function unsubscribing the listener.
+	 */
+	subscribe(listener: PolicyEventListener): () => void {
+		return this.events.subscribe(listener);
 	}
 }
@@ -0,0 +1,350 @@
+import type { SerializedValue } from "../types/policy-types.js";
+import type { IPermissionDecision } from "./access-control.js";
+import type { IActor } from "./delegation.js";
+import { defaultLocale, formatMessage } from "./message-catalog.js";
+import { encodeValue } from "./policy-serialization.js";
+
+/**
+ * Outcome of an audited decision.
+ */
+export type AuditOutcome = "denied" | "granted";
+
+/**
+ * Interface for the record of a single access decision.
+ */
+export interface IAuditRecord {
+	actionType: string;
+
+	/**
+	 * The identity performing the action on behalf of the role, by impersonation or delegation.
+	 */
+	actor?: IActor;
+
+	/**
+	 * The failure message of a denied action, formatted again with the redacted values replaced, or left out
+	 * if it still reveals one of them.
+	 */
+	message?: string;
+	outcome: AuditOutcome;
+
+	/**
+	 * The parameters of the action, with the redacted values replaced.
+	 */
+	parameters: unknown;
+	roleCode: string;
+
+	/**
+	 * The rule that decided the action, as given in the details of its message: the most specific matched
+	 * rule of a granted action, the excluding, unmet or expired rule of a denied one. Functions such as
+	 * predicate conditions are left out.
+	 */
+	rule?: SerializedValue;
+
+	/**
+	 * The code of the role or group holding the permission that decided the action.
+	 */
+	target?: string;
+	tenantId?: string;
+
+	/**
+	 * The time of the decision, as an ISO 8601 string.
+	 */
+	timestamp: string;
+}
+
+/**
+ * Interface for a destination of audit records.
+ */
+export interface IAuditSink {
+	write(record: IAuditRecord): void;
+}
+
+/**
+ * Destination of audit records, a sink or a function receiving every record.
+ */
+export type AuditSink = ((record: IAuditRecord) => void) | IAuditSink;
+
+/**
+ * Interface for the options of an audit log.
+ */
+export interface IAuditOptions {
+	/**
+	 * Generate a random number between 0 and 1 to sample records, defaults to `Math.random`.
+	 */
+	random?: () => number;
+
+	/**
+	 * Redact sensitive parameters, either by their dotted paths, e.g. `card.number`,
+	 * or with a function returning the parameters to record.
+	 */
+	redact?: ((parameters: unknown) => unknown) | string[];
+
+	/**
+	 * The fraction of decisions recorded, between 0 and 1, optionally per outcome. Defaults to 1.
+	 */
+	sampleRate?: number | Partial<Record<AuditOutcome, number>>;
+	sinks: AuditSink[];
+}
+
+const redactedValue = "[REDACTED]";
+
+/**
+ * Class recording access decisions into sinks, after sampling and redaction.
+ */
+export class AuditLog {
+	/**
+	 * @param {IAuditOptions} options - The options of the audit log.
+	 * @throws {Error} If a sample rate is not between 0 and 1.
+	 */
+	constructor(private options: IAuditOptions) {
+		const { sampleRate = 1 } = options;
+		const rates =
+			typeof sampleRate === "number" ? [sampleRate] : Object.values(sampleRate);
+
+		rates.forEach((rate) => {
+			if (!(rate >= 0 && rate <= 1)) {
+				throw new Error(`sample rate must be between 0 and 1: ${rate}`);
+			}
+		});
+	}
+
+	/**
+	 * Record a decision into every sink, unless it is sampled out.
+	 * @param {IPermissionDecision} decision - The decision.
+	 * @param {Date} now - The time of the decision.
+	 * @param {string | string[]} [locale] - The locale redacted messages are formatted again in, defaults to English.
+	 */
+	record(
+		decision: IPermissionDecision,
+		now: Date,
+		locale: string | string[] = defaultLocale,
+	) {
+		const { random = Math.random, sampleRate = 1, sinks } = this.options;
+		const outcome: AuditOutcome =
+			decision.status === "success" ? "granted" : "denied";
+		const rate =
+			typeof sampleRate === "number" ? sampleRate : (sampleRate[outcome] ?? 1);
+
+		if (rate < 1 && random() >= rate) {
+			return;
+		}
+
+		const record = this.createRecord(decision, outcome, now, locale);
+
+		sinks.forEach((sink) => {
+			if (typeof sink === "function") {
+				sink(record);
+			} else {
+				sink.write(record);
+			}
+		});
+	}
+
+	/**
+	 * Create the record of a decision.
+	 * @param {IPermissionDecision} decision - The decision.
+	 * @param {AuditOutcome} outcome - The outcome of the decision.
+	 * @param {Date} now - The time of the decision.
+	 * @param {string | string[]} locale - The locale redacted messages are formatted again in.
+	 * @returns {IAuditRecord} The record.
+	 */
+	private createRecord(
+		{ action, message, permission }: IPermissionDecision,
+		outcome: AuditOutcome,
+		now: Date,
+		locale: string | string[],
+	): IAuditRecord {
+		const { redact } = this.options;
+		const parameters =
+			typeof redact === "function"
+				? redact(action.getParameters())
+				: (redact ?? []).reduce<unknown>(
+						(value, path) => redactPath(value, path.split(".")),
+						action.getParameters(),
+					);
+		const text = redactMessage(
+			message,
+			getRedactedValues(action.getParameters(), parameters),
+			locale,
+		);
+		const decidingRule = message.details?.rule;
+		const actor = action.getActor();
+		const tenantId = action.getTenantId();
+
+		return {
+			actionType: String(action.getType()),
+			...(actor && { actor }),
+			...(text !== undefined && { message: text }),
+			outcome,
+			parameters,
+			roleCode: action.getRoleCode(),
+			...(decidingRule !== undefined && { rule: encodeRule(decidingRule) }),
+			...(permission && { target: permission.getTarget().getCode() }),
+			...(tenantId !== undefined && { tenantId }),
+			timestamp: now.toISOString(),
+		};
+	}
+}
+
+/**
+ * Class keeping the latest audit records in memory.
+ */
+export class RingBufferAuditSink implements IAuditSink {
+	private records: IAuditRecord[] = [];
+
+	/**
+	 * @param {number} [capacity] - The maximum number of records kept, the oldest ones being dropped first. Defaults to 1000.
+	 * @throws {Error} If the capacity is not a positive integer.
+	 */
+	constructor(private capacity = 1000) {
+		if (!Number.isInteger(capacity) || capacity < 1) {
+			throw new Error(
+				`buffer capacity must be a positive integer: ${capacity}`,
+			);
+		}
+	}
+
+	/**
+	 * Remove every record.
+	 */
+	clear() {
+		this.records = [];
+	}
+
+	/**
+	 * Get the records kept, from the oldest to the latest.
+	 * @returns {IAuditRecord[]} The records.
+	 */
+	getRecords(): IAuditRecord[] {
+		return [...this.records];
+	}
+
+	/**
+	 * Keep a record, dropping the oldest one if the buffer is full.
+	 * @param {IAuditRecord} record - The record.
+	 */
+	write(record: IAuditRecord) {
+		if (this.records.length >= this.capacity) {
+			this.records.shift();
+		}
+
+		this.records.push(record);
+	}
+}
+
+/**
+ * Class writing audit records as newline-delimited JSON to a stream, e.g. a file stream created with `fs.createWriteStream`.
+ */
+export class StreamAuditSink implements IAuditSink {
+	/**
+	 * @param {{ write(chunk: string): unknown }} stream - The writable stream.
+	 */
+	constructor(private stream: { write(chunk: string): unknown }) {}
+
+	/**
+	 * Write a record as a line of JSON.
+	 * @param {IAuditRecord} record - The record.
+	 */
+	write(record: IAuditRecord) {
+		this.stream.write(`${JSON.stringify(record)}\n`);
+	}
+}
+
+/**
+ * Encode a rule for a record, leaving out the functions that can't be serialized.
+ * @param {unknown} rule - The rule.
+ * @returns {SerializedValue} The encoded rule.
+ */
+function encodeRule(rule: unknown): SerializedValue {
+	if (typeof rule !== "object" || rule === null || Array.isArray(rule)) {
+		return encodeValue(rule);
+	}
+
+	return encodeValue(
+		Object.fromEntries(
+			Object.entries(rule).filter(([, value]) => typeof value !== "function"),
+		),
+	);
+}
+
+/**
+ * Get the values of parameters that redaction replaced or left out, as strings.
+ * @param {unknown} value - The parameters.
+ * @param {unknown} redacted - The redacted parameters.
+ * @returns {string[]} The redacted values.
+ */
+function getRedactedValues(value: unknown, redacted: unknown): string[] {
+	if (value === redacted) {
+		return [];
+	}
+
+	if (typeof value === "object" && value !== null) {
+		return Object.entries(value).flatMap(([key, entry]) =>
+			getRedactedValues(
+				entry,
+				typeof redacted === "object" && redacted !== null
+					? (redacted as Record<string, unknown>)[key]
+					: undefined,
+			),
+		);
+	}
+
+	return value === undefined || value === null || value === ""
+		? []
+		: [String(value)];
+}
+
+/**
+ * Format the message of a decision again with the redacted values replaced in its parameters.
+ * @param {IPermissionDecision["message"]} message - The message of the decision.
+ * @param {string[]} secrets - The redacted values.
+ * @param {string | string[]} locale - The locale of the message.
+ * @returns {string | undefined} The message, or undefined if it still reveals a redacted value.
+ */
+function redactMessage(
+	{
+		message,
+		messageKey,
+		messageParameters = {},
+	}: IPermissionDecision["message"],
+	secrets: string[],
+	locale: string | string[],
+): string | undefined {
+	if (secrets.length === 0 || message === undefined) {
+		return message;
+	}
+
+	const text = messageKey
+		? formatMessage(
+				messageKey,
+				Object.fromEntries(
+					Object.entries(messageParameters).map(([name, value]) => [
+						name,
+						secrets.includes(String(value)) ? redactedValue : value,
+					]),
+				),
+				locale,
+			)
+		: message;
+
+	return secrets.some((secret) => text.includes(secret)) ? undefined : text;
+}
+
+/**
+ * Replace the value at a path of an object, copying the objects along the path rather than mutating them.
+ * @param {unknown} value - The object.
+ * @param {string[]} path - The keys leading to the value.
+ * @returns {unknown} The object with the value replaced, unchanged if the path doesn't exist.
+ */
+function redactPath(value: unknown, [key, ...rest]: string[]): unknown {
+	if (typeof value !== "object" || value === null || !(key in value)) {
+		return value;
+	}
+
+	const entry = (value as Record<string, unknown>)[key];
+
+	return {
+		...value,
+		[key]: rest.length === 0 ? redactedValue : redactPath(entry, rest),
+	};
+}
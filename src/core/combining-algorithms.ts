@@ -0,0 +1,52 @@
+import type { Permission } from "./access-control.js";
+import type { IPermissionMessage } from "./permission-message.js";
+
+/**
+ * Algorithms used to combine the results of every applicable permission.
+ *
+ * - `deny-overrides`: any denying permission denies the action.
+ * - `permit-overrides`: any permitting permission allows the action.
+ * - `first-applicable`: the first applicable permission decides.
+ * - `last-applicable`: the last applicable permission decides.
+ */
+export type CombiningAlgorithm =
+	| "deny-overrides"
+	| "first-applicable"
+	| "last-applicable"
+	| "permit-overrides";
+
+/**
+ * Interface for the result of validating a single applicable permission.
+ */
+export interface IPermissionResult {
+	/**
+	 * The failure message, or undefined if the permission allows the action.
+	 */
+	message?: IPermissionMessage;
+	permission: Permission;
+}
+
+const isDenied = (result: IPermissionResult) =>
+	result.message?.status === "failed";
+
+/**
+ * Combine the results of the applicable permissions into the deciding result.
+ * @param {IPermissionResult[]} results - The results in evaluation order.
+ * @param {CombiningAlgorithm} algorithm - The algorithm used to combine the results.
+ * @returns {IPermissionResult | undefined} The deciding result, or undefined if there is none.
+ */
+export function combinePermissionResults(
+	results: IPermissionResult[],
+	algorithm: CombiningAlgorithm,
+): IPermissionResult | undefined {
+	switch (algorithm) {
+		case "deny-overrides":
+			return results.find(isDenied) ?? results.findLast((r) => !isDenied(r));
+		case "first-applicable":
+			return results.at(0);
+		case "last-applicable":
+			return results.at(-1);
+		case "permit-overrides":
+			return results.findLast((r) => !isDenied(r)) ?? results.find(isDenied);
+	}
+}
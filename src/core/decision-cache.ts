@@ -0,0 +1,101 @@
+/**
+ * Interface for the options of a decision cache.
+ */
+export interface IDecisionCacheOptions {
+	/**
+	 * The maximum number of cached decisions, the least recently used ones are evicted first. Defaults to 1000.
+	 */
+	maxSize?: number;
+}
+
+/**
+ * Interface for the statistics of a decision cache.
+ */
+export interface IDecisionCacheStats {
+	evictions: number;
+	hits: number;
+
+	/**
+	 * The number of times the cache was cleared because the policy changed.
+	 */
+	invalidations: number;
+	maxSize: number;
+	misses: number;
+	size: number;
+}
+
+/**
+ * Class caching values with a bounded size, evicting the least recently used ones.
+ * @template V
+ */
+export class DecisionCache<V> {
+	private entries = new Map<string, V>();
+	private readonly maxSize: number;
+	private stats = { evictions: 0, hits: 0, invalidations: 0, misses: 0 };
+
+	/**
+	 * @param {IDecisionCacheOptions} [options] - The options of the cache.
+	 * @throws {Error} If the maximum size is not a positive integer.
+	 */
+	constructor({ maxSize = 1000 }: IDecisionCacheOptions = {}) {
+		if (!Number.isInteger(maxSize) || maxSize < 1) {
+			throw new Error(`cache size must be a positive integer: ${maxSize}`);
+		}
+
+		this.maxSize = maxSize;
+	}
+
+	/**
+	 * Remove every cached value.
+	 */
+	clear() {
+		if (this.entries.size > 0) {
+			this.stats.invalidations++;
+			this.entries.clear();
+		}
+	}
+
+	/**
+	 * Get a cached value, marking it as the most recently used.
+	 * @param {string} key - The key of the value.
+	 * @returns {V | undefined} The value, or undefined if it isn't cached.
+	 */
+	get(key: string): undefined | V {
+		const value = this.entries.get(key);
+
+		if (value === undefined) {
+			this.stats.misses++;
+			return undefined;
+		}
+
+		this.stats.hits++;
+		this.entries.delete(key);
+		this.entries.set(key, value);
+
+		return value;
+	}
+
+	/**
+	 * Get the statistics of the cache.
+	 * @returns {IDecisionCacheStats} The statistics.
+	 */
+	getStats(): IDecisionCacheStats {
+		return { ...this.stats, maxSize: this.maxSize, size: this.entries.size };
+	}
+
+	/**
+	 * Cache a value, evicting the least recently used one if the cache is full.
+	 * @param {string} key - The key of the value.
+	 * @param {V} value - The value.
+	 */
+	set(key: string, value: V) {
+		this.entries.delete(key);
+
+		if (this.entries.size >= this.maxSize) {
+			this.entries.delete(this.entries.keys().next().value!);
+			this.stats.evictions++;
+		}
+
+		this.entries.set(key, value);
+	}
+}
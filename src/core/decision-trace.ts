@@ -0,0 +1,110 @@
+import type {
+	Action,
+	Group,
+	IPermissionDecision,
+	Permission,
+	Role,
+} from "./access-control.js";
+import type { CombiningAlgorithm } from "./combining-algorithms.js";
+import type { IPermissionMessage } from "./permission-message.js";
+import type { ValidityStatus } from "./rule-validity.js";
+
+/**
+ * Interface for a rule together with the role or group it was defined on.
+ * @template R
+ */
+export interface IRuleEntry<R = unknown> {
+	/**
+	 * The role or group the rule was defined on, which differs from the permission target for inherited rules.
+	 */
+	origin: Group | Role;
+	rule: R;
+}
+
+/**
+ * Interface for the evaluation of a single rule against an action.
+ * @template R
+ */
+export interface IRuleEvaluation<R = unknown> extends IRuleEntry<R> {
+	/**
+	 * Whether the condition of the rule is met, undefined if the rule has no condition or its pattern didn't match.
+	 */
+	conditionMet?: boolean;
+
+	/**
+	 * Whether the exclude flag of the matched rule flipped the result.
+	 */
+	excluded: boolean;
+
+	/**
+	 * Whether the rule matched the action.
+	 */
+	matched: boolean;
+
+	/**
+	 * How the rule matched, a regular expression or an exact string.
+	 */
+	matchedBy?: "regex" | "string";
+
+	/**
+	 * The pattern of the rule that matched.
+	 */
+	pattern?: string;
+
+	/**
+	 * Whether the rule was skipped because an earlier rule already decided the result.
+	 */
+	skipped: boolean;
+
+	/**
+	 * Whether the rule was in effect at the time of the decision, given its validity and the validity of
+	 * its permission. Undefined if neither is time-bound or the pattern of the rule didn't match.
+	 */
+	validity?: ValidityStatus;
+}
+
+/**
+ * Interface for the trace of a single permission evaluated for an action.
+ */
+export interface IPermissionTrace {
+	/**
+	 * Whether the permission applies to the action.
+	 */
+	applicable: boolean;
+
+	/**
+	 * The failure message of the permission, or undefined if it allows the action.
+	 */
+	message?: IPermissionMessage;
+	permission: Permission;
+	rules: IRuleEvaluation[];
+}
+
+/**
+ * A step of a decision trace.
+ */
+export type DecisionTraceStep =
+	| {
+			algorithm: CombiningAlgorithm;
+			permission: null | Permission;
+			step: "combination";
+	  }
+	| {
+			permissions: IPermissionTrace[];
+			step: "permissions";
+	  }
+	| {
+			role?: Role;
+			roleCode: string;
+			step: "role-lookup";
+	  };
+
+/**
+ * Interface for the trace explaining how a decision was made.
+ * @template A
+ */
+export interface IDecisionTrace<A extends Action = Action> {
+	action: A;
+	decision: IPermissionDecision<A>;
+	steps: DecisionTraceStep[];
+}
@@ -0,0 +1,52 @@
+import type { IValidity } from "./rule-validity.js";
+
+/**
+ * How an actor performs an action on behalf of another role: `impersonation` takes on every permission
+ * of the role and is restricted to privileged roles, `delegation` is restricted to the permissions the role delegated.
+ */
+export type ActorMode = "delegation" | "impersonation";
+
+/**
+ * Interface for the identity actually performing an action on behalf of the role of the action.
+ */
+export interface IActor {
+	/**
+	 * The id of the actor, e.g. a user id, carried through messages and audit records.
+	 */
+	id?: string;
+	mode: ActorMode;
+
+	/**
+	 * The code of the role of the actor, the privileged role of an impersonator or the role of a deputy.
+	 */
+	roleCode: string;
+}
+
+/**
+ * Interface for permissions a role delegates to another one, optionally for a limited period.
+ *
+ * @example
+ * // Managers delegate their component permissions to deputies during the holidays
+ * const delegation: IDelegation = {
+ *   from: "MANAGER",
+ *   to: "DEPUTY",
+ *   types: ["component"],
+ *   validUntil: "2024-09-01T00:00:00Z",
+ * };
+ */
+export interface IDelegation extends IValidity {
+	/**
+	 * The code of the delegating role.
+	 */
+	from: string;
+
+	/**
+	 * The code of the role the permissions are delegated to.
+	 */
+	to: string;
+
+	/**
+	 * The permission types delegated, defaults to every type.
+	 */
+	types?: string[];
+}
@@ -1,11 +1,96 @@
 export {
 	AccessControl,
 	Action,
+	type DecisionMap,
 	Group,
+	type IAccessControlOptions,
+	type IActionOptions,
+	type IPermissionDecision,
+	type IRoleAccess,
+	type IRoleLookup,
+	type IRoleOptions,
 	Permission,
 	Role,
 } from "./access-control";
+export type { ActorMode, IActor, IDelegation } from "./delegation";
 export {
 	type IPermissionMessage,
+	type IPermissionMessageDetails,
 	PermissionMessage,
+	type PermissionMessageCode,
 } from "./permission-message";
+export type {
+	ILocaleOptions,
+	MessageCatalog,
+	MessageKey,
+	MessageParameters,
+} from "./message-catalog";
+export {
+	type ITenantOptions,
+	TenantAccessControl,
+} from "./tenant-access-control";
+export type {
+	AuditOutcome,
+	AuditSink,
+	IAuditOptions,
+	IAuditRecord,
+	IAuditSink,
+} from "./audit-log";
+export {
+	DecisionCache,
+	type IDecisionCacheOptions,
+	type IDecisionCacheStats,
+} from "./decision-cache";
+export {
+	type CombiningAlgorithm,
+	combinePermissionResults,
+	type IPermissionResult,
+} from "./combining-algorithms";
+export type {
+	DecisionTraceStep,
+	IDecisionTrace,
+	IPermissionTrace,
+	IRuleEntry,
+	IRuleEvaluation,
+} from "./decision-trace";
+export {
+	checkRuleCondition,
+	type ConditionExpression,
+	type ConditionOperand,
+	type ConditionPredicate,
+	evaluateCondition,
+	type IActionContext,
+	type IConditionReference,
+	type RuleCondition,
+	validateCondition,
+} from "./rule-conditions";
+export {
+	type Clock,
+	type DateInput,
+	getValidity,
+	getValidityStatus,
+	type IExpiredRule,
+	type ITimeWindow,
+	type IValidity,
+	validateTimeWindows,
+	type ValidityStatus,
+	validitySchema,
+} from "./rule-validity";
+export {
+	type IPermissionRegistration,
+	type PermissionFactory,
+	registerPermissionFactory,
+} from "./permission-registry";
+export { validateSchema } from "./policy-validation";
+export type {
+	IPolicyValidationError,
+	IRulePropertySchema,
+	RuleSchema,
+	RuleValueKind,
+} from "../types/policy-types";
+export {
+	type PolicyEvent,
+	PolicyEventEmitter,
+	type PolicyEventListener,
+	type PolicyEventType,
+} from "./policy-events";
@@ -0,0 +1,158 @@
+// cspell:ignore gefunden introuvable nicht Rolle Rôle verweigert Zugriff
+
+/**
+ * Key of a message of the catalog.
+ */
+export type MessageKey =
+	| "accessDenied"
+	| "componentDenied"
+	| "delegationNotFound"
+	| "impersonationNotAllowed"
+	| "listDenied"
+	| "noPermissionForType"
+	| "roleNotFound"
+	| "routeDenied"
+	| "ruleExpired"
+	| "tenantNotFound"
+	| "typeMismatch";
+
+/**
+ * Messages of a locale by key. Templates interpolate their parameters between braces, e.g. `{roleCode}`.
+ */
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+/**
+ * Parameters interpolated into a message template.
+ */
+export type MessageParameters = Record<string, number | string>;
+
+/**
+ * Interface for the options of a registered locale.
+ */
+export interface ILocaleOptions {
+	/**
+	 * The locale whose messages are used when the locale lacks one, before the language of the locale and English.
+	 */
+	fallback?: string;
+}
+
+interface ILocaleRegistration extends ILocaleOptions {
+	catalog: MessageCatalog;
+}
+
+/**
+ * The locale of the built-in messages, the last fallback of every locale.
+ */
+export const defaultLocale = "en";
+
+/**
+ * The built-in English messages.
+ */
+export const defaultMessages: Readonly<Record<MessageKey, string>> = {
+	accessDenied: "{type} access is not allowed",
+	componentDenied:
+		"action {action} are not allowed to perform in this component",
+	delegationNotFound:
+		"No delegation from {roleCode} to {actorRoleCode} covers {type} access.",
+	impersonationNotAllowed:
+		"Role {actorRoleCode} can't impersonate other roles.",
+	listDenied: "No access permission for {type} '{identifier}'",
+	noPermissionForType: "No matching permissions found.",
+	roleNotFound: "Role not found.",
+	routeDenied: "route access is not allowed",
+	ruleExpired: "{type} access expired on {validUntil}",
+	tenantNotFound: "Tenant not found.",
+	typeMismatch: "action type doesn't match the permission type",
+};
+
+const locales = new Map<string, ILocaleRegistration>();
+
+/**
+ * Format a message in the first locale of a fallback chain defining it, defaulting to the built-in English message.
+ * Placeholders without a parameter are left as is.
+ * @param {MessageKey} key - The key of the message.
+ * @param {MessageParameters} [parameters] - The parameters interpolated into the message.
+ * @param {string | string[]} [locale] - The locale, or the locales in order of preference, defaults to English.
+ * @returns {string} The formatted message.
+ *
+ * @example
+ * registerLocale("fr", { roleNotFound: "Rôle {roleCode} introuvable." });
+ * formatMessage("roleNotFound", { roleCode: "EDITOR" }, "fr-CA"); // "Rôle EDITOR introuvable."
+ */
+export function formatMessage(
+	key: MessageKey,
+	parameters: MessageParameters = {},
+	locale: string | string[] = defaultLocale,
+): string {
+	const template =
+		getLocaleChain(locale)
+			.map((candidate) => locales.get(candidate)?.catalog[key])
+			.find((message) => message !== undefined) ?? defaultMessages[key];
+
+	return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		name in parameters ? String(parameters[name]) : placeholder,
+	);
+}
+
+/**
+ * Get the fallback chain of a locale: the locale, its registered fallbacks, its language without the region,
+ * e.g. `pt` for `pt-BR`, and English last.
+ * @param {string | string[]} locale - The locale, or the locales in order of preference.
+ * @returns {string[]} The locales messages are looked up in, in order.
+ */
+export function getLocaleChain(locale: string | string[]): string[] {
+	const chain: string[] = [];
+	const visit = (candidate: string) => {
+		if (chain.includes(candidate)) {
+			return;
+		}
+
+		const separator = candidate.lastIndexOf("-");
+		const fallback = locales.get(candidate)?.fallback;
+
+		chain.push(candidate);
+
+		if (fallback) {
+			visit(fallback);
+		}
+
+		if (separator > 0) {
+			visit(candidate.slice(0, separator));
+		}
+	};
+
+	[locale].flat().forEach(visit);
+	visit(defaultLocale);
+
+	return chain;
+}
+
+/**
+ * Get every registered locale.
+ * @returns {string[]} The locales, in registration order.
+ */
+export function getRegisteredLocales(): string[] {
+	return [...locales.keys()];
+}
+
+/**
+ * Register the messages of a locale. Registering a locale again replaces its previous messages, and
+ * registering English overrides the built-in messages.
+ * @param {string} locale - The locale, e.g. `fr` or `fr-CA`.
+ * @param {MessageCatalog} catalog - The messages of the locale, missing ones being looked up in its fallbacks.
+ * @param {ILocaleOptions} [options] - The fallback of the locale.
+ *
+ * @example
+ * registerLocale("de", {
+ *   roleNotFound: "Rolle {roleCode} nicht gefunden.",
+ *   routeDenied: "Zugriff auf {route} verweigert",
+ * });
+ * registerLocale("de-CH", {}, { fallback: "de" });
+ */
+export function registerLocale(
+	locale: string,
+	catalog: MessageCatalog,
+	{ fallback }: ILocaleOptions = {},
+) {
+	locales.set(locale, { catalog: { ...catalog }, fallback });
+}
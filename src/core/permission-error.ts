@@ -0,0 +1,20 @@
+import type { IPermissionDecision } from "./access-control.js";
+
+/**
+ * Error thrown when an action is asserted against the access control and denied.
+ */
+export class PermissionDeniedError extends Error {
+	/**
+	 * The decision that caused the error.
+	 */
+	readonly decision: IPermissionDecision;
+
+	/**
+	 * @param {IPermissionDecision} decision - The failed decision.
+	 */
+	constructor(decision: IPermissionDecision) {
+		super(decision.message.message ?? "Permission denied.");
+		this.name = "PermissionDeniedError";
+		this.decision = decision;
+	}
+}
@@ -1,23 +1,122 @@
 import { Action } from "./access-control.js";
 import { Group } from "./access-control.js";
 import { Role } from "./access-control.js";
+import type { IActor } from "./delegation.js";
+import {
+  formatMessage,
+  type MessageKey,
+  type MessageParameters,
+} from "./message-catalog.js";
+
+/**
+ * Stable code of the reason of a decision, for clients to branch on instead of matching message strings.
+ * `DENIED` is the code of failures that don't give a more specific reason.
+ */
+export type PermissionMessageCode =
+  | "ALLOWED"
+  | "CONDITION_FAILED"
+  | "DELEGATION_NOT_FOUND"
+  | "DENIED"
+  | "IMPERSONATION_NOT_ALLOWED"
+  | "NO_MATCHING_RULE"
+  | "NO_PERMISSION_FOR_TYPE"
+  | "ROLE_NOT_FOUND"
+  | "RULE_EXCLUDED"
+  | "RULE_EXPIRED"
+  | "RULE_INACTIVE"
+  | "TENANT_NOT_FOUND"
+  | "TYPE_MISMATCH";
+
+/**
+ * Interface for the structured details of a decision.
+ */
+export interface IPermissionMessageDetails {
+  /**
+   * The requested identifier, the route or identifier of the action, on every decision of an action
+   * requesting one.
+   */
+  identifier?: string;
+
+  /**
+   * The rule that decided the action: the matched rule of an allowed action, the excluding, unmet
+   * or expired rule of a denied one.
+   */
+  rule?: unknown;
+
+  /**
+   * The end of the validity period of an expired rule or permission.
+   */
+  validUntil?: Date;
+}
 
 export interface IPermissionMessage {
   status: "success" | "failed";
+
+  /**
+   * The reason of the decision, defaults to `ALLOWED` or `DENIED` depending on the status.
+   */
+  code?: PermissionMessageCode;
+  details?: IPermissionMessageDetails;
+
+  /**
+   * The text of the message, defaults to the English message of its key.
+   */
   message?: string;
+
+  /**
+   * The key of the message in the catalog, for access controls to format it in their locale.
+   */
+  messageKey?: MessageKey;
+  messageParameters?: MessageParameters;
   target?: Role | Group;
   action?: Action;
+  actor?: IActor;
 }
 
 export class PermissionMessage implements IPermissionMessage {
   status: "success" | "failed";
+  code: PermissionMessageCode;
+  details: IPermissionMessageDetails;
   message?: string;
+  messageKey?: MessageKey;
+  messageParameters?: MessageParameters;
   target?: Role | Group;
   action?: Action;
-  constructor({ status, message, target, action }: IPermissionMessage) {
+  actor?: IActor;
+  constructor({
+    status,
+    code = status === "success" ? "ALLOWED" : "DENIED",
+    details = {},
+    messageKey,
+    messageParameters,
+    message = messageKey && formatMessage(messageKey, messageParameters),
+    target,
+    action,
+    actor = action?.getActor(),
+  }: IPermissionMessage) {
     this.status = status;
+    this.code = code;
+    this.details = { ...getRequestedIdentifier(action), ...details };
     this.message = message;
+    this.messageKey = messageKey;
+    this.messageParameters = messageParameters;
     this.target = target;
     this.action = action;
+    this.actor = actor;
   }
 }
+
+/**
+ * Get the identifier an action requests, for the details of its messages.
+ * @param {Action} [action] - The action.
+ * @returns {IPermissionMessageDetails} The details holding the route or identifier of the action, if any.
+ */
+function getRequestedIdentifier(action?: Action): IPermissionMessageDetails {
+  const { identifier, route } = (action?.getParameters() ?? {}) as {
+    identifier?: unknown;
+    route?: unknown;
+  };
+  const requested = route ?? identifier;
+
+  return typeof requested === "string" ? { identifier: requested } : {};
+}
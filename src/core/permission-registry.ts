@@ -0,0 +1,96 @@
+import type {
+	IPolicyValidationError,
+	RuleSchema,
+	SerializedValue,
+} from "../types/policy-types.js";
+import type { Group, Permission, Role } from "./access-control.js";
+
+/**
+ * Factory creating a permission of a given type from its target and rules.
+ */
+export type PermissionFactory = (
+	target: Group | Role,
+	rules: unknown[],
+) => Permission;
+
+/**
+ * Interface for the registration of a permission type.
+ */
+export interface IPermissionRegistration {
+	/**
+	 * Decode a serialized rule, defaults to `decodeValue`.
+	 */
+	deserializeRule?: (value: SerializedValue) => unknown;
+	factory: PermissionFactory;
+
+	/**
+	 * The schema the serialized rules of the type are validated against.
+	 */
+	ruleSchema?: RuleSchema;
+
+	/**
+	 * Encode a rule into JSON, defaults to `encodeValue`.
+	 */
+	serializeRule?: (rule: unknown) => SerializedValue;
+
+	/**
+	 * Validate a serialized rule beyond its schema, e.g. the relations between its properties.
+	 * Called once the rule matches the schema, the paths of the errors being relative to the rule.
+	 */
+	validateRule?: (rule: SerializedValue) => IPolicyValidationError[];
+}
+
+const registrations = new Map<string, IPermissionRegistration>();
+
+/**
+ * Get the factory registered for a permission type.
+ * @param {string} type - The permission type.
+ * @returns {PermissionFactory | undefined} The factory, or undefined if the type is not registered.
+ */
+export function getPermissionFactory(
+	type: string,
+): PermissionFactory | undefined {
+	return registrations.get(type)?.factory;
+}
+
+/**
+ * Get the registration of a permission type.
+ * @param {string} type - The permission type.
+ * @returns {IPermissionRegistration | undefined} The registration, or undefined if the type is not registered.
+ */
+export function getPermissionRegistration(
+	type: string,
+): IPermissionRegistration | undefined {
+	return registrations.get(type);
+}
+
+/**
+ * Get every registered permission type.
+ * @returns {string[]} The permission types, in registration order.
+ */
+export function getRegisteredPermissionTypes(): string[] {
+	return [...registrations.keys()];
+}
+
+/**
+ * Get the schema of the rules registered for a permission type.
+ * @param {string} type - The permission type.
+ * @returns {RuleSchema | undefined} The schema, or undefined if the type was registered without one.
+ */
+export function getRuleSchema(type: string): RuleSchema | undefined {
+	return registrations.get(type)?.ruleSchema;
+}
+
+/**
+ * Register the factory of a permission type, so that policies containing it can be validated and deserialized.
+ * @param {string} type - The permission type.
+ * @param {PermissionFactory} factory - The factory creating permissions of the type.
+ * @param {Omit<IPermissionRegistration, "factory">} [options] - The rule schema and serializer of the type.
+ */
+export function registerPermissionFactory(
+	type: string,
+	factory: PermissionFactory,
+	options: Omit<IPermissionRegistration, "factory"> = {},
+) {
+	registrations.set(type, { ...options, factory });
+}
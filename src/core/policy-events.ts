@@ -0,0 +1,116 @@
+import type { Group, Permission, Role } from "./access-control.js";
+import type { CombiningAlgorithm } from "./combining-algorithms.js";
+import type { IDelegation } from "./delegation.js";
+import type { IValidity } from "./rule-validity.js";
+
+/**
+ * Events emitted whenever the policy is mutated.
+ */
+export type PolicyEvent =
+	| {
+			algorithm: CombiningAlgorithm;
+			permissionType?: string;
+			type: "combiningAlgorithmChanged";
+	  }
+	| {
+			delegation: IDelegation;
+			type: "delegationAdded" | "delegationRevoked";
+	  }
+	| {
+			locale: string | string[];
+			type: "localeChanged";
+	  }
+	| {
+			from: Group;
+			role: Role;
+			to: Group;
+			type: "roleMovedGroup";
+	  }
+	| {
+			group: Group;
+			inheritFrom?: Group;
+			type: "groupInheritanceChanged";
+	  }
+	| {
+			group: Group;
+			role: Role;
+			type: "roleGroupAssigned" | "roleGroupRemoved";
+	  }
+	| {
+			group: Group;
+			type: "groupAdded" | "groupRemoved";
+	  }
+	| {
+			permission: Permission;
+			rules: unknown[];
+			type: "ruleAdded" | "ruleRemoved";
+	  }
+	| {
+			permission: Permission;
+			target: Group | Role;
+			type: "permissionAssigned" | "permissionRevoked";
+	  }
+	| {
+			permission: Permission;
+			type: "permissionValidityChanged";
+			validity?: IValidity;
+	  }
+	| {
+			role: Role;
+			type: "roleAdded" | "roleRemoved";
+	  };
+
+/**
+ * The type of a policy event.
+ */
+export type PolicyEventType = PolicyEvent["type"];
+
+/**
+ * Listener receiving policy events.
+ * @template E
+ */
+export type PolicyEventListener<E extends PolicyEvent = PolicyEvent> = (
+	event: E,
+) => void;
+
+/**
+ * Class dispatching policy events to their listeners.
+ */
+export class PolicyEventEmitter {
+	private listeners: PolicyEventListener[] = [];
+
+	/**
+	 * Emit an event to every listener.
+	 * @param {PolicyEvent} event - The event to emit.
+	 */
+	emit(event: PolicyEvent) {
+		[...this.listeners].forEach((listener) => {
+			listener(event);
+		});
+	}
+
+	/**
+	 * Subscribe a listener to every event.
+	 * @param {PolicyEventListener} listener - The listener to subscribe.
+	 * @returns {function(): void} A function unsubscribing the listener.
+	 */
+	subscribe(listener: PolicyEventListener): () => void {
+		if (!this.listeners.includes(listener)) {
+			this.listeners.push(listener);
+		}
+
+		return () => {
+			this.unsubscribe(listener);
+		};
+	}
+
+	/**
+	 * Unsubscribe a listener.
+	 * @param {PolicyEventListener} listener - The listener to unsubscribe.
+	 */
+	unsubscribe(listener: PolicyEventListener) {
+		this.listeners = this.listeners.filter(
+			(_listener) => _listener !== listener,
+		);
+	}
+}
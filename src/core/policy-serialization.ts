@@ -0,0 +1,235 @@
+import type {
+	IPermissionDocument,
+	IPolicyDocument,
+	SerializedValue,
+} from "../types/policy-types.js";
+
+import {
+	AccessControl,
+	Group,
+	type IAccessControlOptions,
+	type Permission,
+	Role,
+} from "./access-control.js";
+import { getPermissionRegistration } from "./permission-registry.js";
+import type { IValidity } from "./rule-validity.js";
+
+/**
+ * Encode a rule value into JSON, encoding regular expressions as their source and flags, and dates as ISO 8601 strings.
+ * @param {unknown} value - The value to encode.
+ * @returns {SerializedValue} The encoded value.
+ * @throws {Error} If the value can't be represented in JSON.
+ */
+export function encodeValue(value: unknown): SerializedValue {
+	if (value instanceof RegExp) {
+		return { $regex: value.source, flags: value.flags };
+	}
+
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+
+	if (Array.isArray(value)) {
+		return value.map(encodeValue);
+	}
+
+	if (
+		value === null ||
+		["boolean", "number", "string"].includes(typeof value)
+	) {
+		return value as SerializedValue;
+	}
+
+	if (typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([, entry]) => entry !== undefined)
+				.map(([key, entry]) => [key, encodeValue(entry)]),
+		);
+	}
+
+	throw new Error(`value of type ${typeof value} can't be serialized`);
+}
+
+/**
+ * Decode a rule value encoded by `encodeValue`, restoring regular expressions.
+ * @param {SerializedValue} value - The value to decode.
+ * @returns {unknown} The decoded value.
+ */
+export function decodeValue(value: SerializedValue): unknown {
+	if (Array.isArray(value)) {
+		return value.map(decodeValue);
+	}
+
+	if (value !== null && typeof value === "object") {
+		if (typeof value.$regex === "string") {
+			return new RegExp(value.$regex, value.flags as string | undefined);
+		}
+
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, decodeValue(entry)]),
+		);
+	}
+
+	return value;
+}
+
+/**
+ * Deserialize a policy document into an access control.
+ * @param {IPolicyDocument} document - The policy document.
+ * @param {IAccessControlOptions} [options] - The runtime options of the access control, such as its cache or clock.
+ * @returns {AccessControl} The access control described by the document.
+ * @throws {Error} If the document references unknown groups or permission types.
+ */
+export function deserializePolicy(
+	document: IPolicyDocument,
+	options: Omit<
+		IAccessControlOptions,
+		"combiningAlgorithm" | "combiningAlgorithms"
+	> = {},
+): AccessControl {
+	const groups = new Map(
+		document.groups.map(({ code }) => [code, new Group(code)]),
+	);
+	const findGroup = (code: string) => {
+		const group = groups.get(code);
+
+		if (!group) {
+			throw new Error(`group ${code} is not defined in the policy`);
+		}
+
+		return group;
+	};
+
+	document.groups.forEach(({ code, inheritFrom, permissions }) => {
+		const group = findGroup(code);
+
+		if (inheritFrom) {
+			group.setInheritFrom(findGroup(inheritFrom));
+		}
+
+		deserializePermissions(group, permissions);
+	});
+
+	const roles = document.roles.map(
+		({ code, config, groups: memberships, permissions, strict }) => {
+			const role = new Role(
+				code,
+				config === undefined ? undefined : decodeValue(config),
+				strict ? { strict } : {},
+			);
+
+			memberships.forEach((membership) => {
+				role.assignGroup(findGroup(membership));
+			});
+			deserializePermissions(role, permissions);
+
+			return role;
+		},
+	);
+
+	return new AccessControl(roles, [...groups.values()], {
+		...options,
+		combiningAlgorithm: document.combiningAlgorithm,
+		combiningAlgorithms: document.combiningAlgorithms,
+	});
+}
+
+/**
+ * Serialize an access control into a policy document. Every group reachable from the access control
+ * is included, and functions such as route middlewares are not serialized.
+ * @param {AccessControl} accessControl - The access control to serialize.
+ * @returns {IPolicyDocument} The policy document.
+ */
+export function serializePolicy(accessControl: AccessControl): IPolicyDocument {
+	const roles = accessControl.getRoles();
+	const groups = [
+		...accessControl.getGroups(),
+		...roles.flatMap((role) => role.getInheritanceChain()),
+	].flatMap((group) => [...group.getAncestors().reverse(), group]);
+	const combiningAlgorithms = accessControl.getCombiningAlgorithms();
+
+	return {
+		combiningAlgorithm: accessControl.getCombiningAlgorithm(),
+		...(Object.keys(combiningAlgorithms).length > 0 && { combiningAlgorithms }),
+		groups: groups
+			.filter((group, index) => groups.indexOf(group) === index)
+			.map((group) => ({
+				code: group.getCode(),
+				...(group.getInheritFrom() && {
+					inheritFrom: group.getInheritFrom()!.getCode(),
+				}),
+				permissions: serializePermissions(group.getPermissions()),
+			})),
+		roles: roles.map((role) => ({
+			code: role.getCode(),
+			...(role.getConfig() !== undefined && {
+				config: encodeValue(role.getConfig()),
+			}),
+			groups: role.getGroups().map((group) => group.getCode()),
+			permissions: serializePermissions(
+				role
+					.getPermissions()
+					.filter((permission) => permission.getTarget() === role),
+			),
+			...(role.isStrict() && { strict: true }),
+		})),
+		version: 1,
+	};
+}
+
+/**
+ * Create the permissions described by permission documents on a target.
+ * @param {Group | Role} target - The target of the permissions.
+ * @param {IPermissionDocument[]} permissions - The permission documents.
+ * @throws {Error} If a permission type is not registered.
+ */
+function deserializePermissions(
+	target: Group | Role,
+	permissions: IPermissionDocument[],
+) {
+	permissions.forEach(({ rules, type, validity }) => {
+		const registration = getPermissionRegistration(type);
+
+		if (!registration) {
+			throw new Error(`permission type ${type} is not registered`);
+		}
+
+		const { deserializeRule = decodeValue, factory } = registration;
+
+		const permission = factory(
+			target,
+			rules.map((rule) => deserializeRule(rule)),
+		);
+
+		if (validity) {
+			permission.setValidity(validity as IValidity);
+		}
+	});
+}
+
+/**
+ * Serialize permissions into permission documents, without their inherited rules.
+ * Rules are encoded by the serializer registered for their permission type, if any.
+ * @param {Permission[]} permissions - The permissions to serialize.
+ * @returns {IPermissionDocument[]} The permission documents.
+ */
+function serializePermissions(
+	permissions: Permission[],
+): IPermissionDocument[] {
+	return permissions.map((permission) => {
+		const type = permission.getType();
+		const { serializeRule = encodeValue } =
+			getPermissionRegistration(type) ?? {};
+
+		const validity = permission.getValidity();
+
+		return {
+			rules: permission.rules.map((rule) => serializeRule(rule)),
+			type,
+			...(validity && {
+				validity: encodeValue(validity) as IPermissionDocument["validity"],
+			}),
+		};
+	});
+}
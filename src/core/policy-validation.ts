@@ -0,0 +1,448 @@
+import type {
+	IPolicyDocument,
+	IPolicyValidationError,
+	RuleSchema,
+	RuleValueKind,
+	SerializedValue,
+} from "../types/policy-types.js";
+import type { CombiningAlgorithm } from "./combining-algorithms.js";
+
+import {
+	getPermissionFactory,
+	getPermissionRegistration,
+} from "./permission-registry.js";
+import { validateCondition } from "./rule-conditions.js";
+import {
+	isDateInput,
+	validateTimeWindows,
+	validitySchema,
+} from "./rule-validity.js";
+
+const combiningAlgorithms: CombiningAlgorithm[] = [
+	"deny-overrides",
+	"first-applicable",
+	"last-applicable",
+	"permit-overrides",
+];
+
+const valueKindChecks: Record<RuleValueKind, (value: unknown) => boolean> = {
+	boolean: (value) => typeof value === "boolean",
+	condition: (value) => validateCondition(value).length === 0,
+	date: isDateInput,
+	regex: (value) =>
+		value instanceof RegExp ||
+		(isRecord(value) &&
+			typeof value.$regex === "string" &&
+			["string", "undefined"].includes(typeof value.flags)),
+	string: (value) => typeof value === "string",
+	"string-array": (value) =>
+		Array.isArray(value) && value.every((item) => typeof item === "string"),
+	"time-windows": (value) => validateTimeWindows(value).length === 0,
+};
+
+const nestedValidators: Partial<
+	Record<
+		RuleValueKind,
+		(value: unknown, path: string) => IPolicyValidationError[]
+	>
+> = {
+	condition: validateCondition,
+	"time-windows": validateTimeWindows,
+};
+
+/**
+ * Error thrown when a policy document is invalid, holding every error found.
+ */
+export class PolicyValidationError extends Error {
+	readonly errors: IPolicyValidationError[];
+
+	/**
+	 * @param {IPolicyValidationError[]} errors - The errors found in the document.
+	 */
+	constructor(errors: IPolicyValidationError[]) {
+		super(
+			[
+				"invalid policy document:",
+				...errors.map(({ message, path }) => `${path || "/"}: ${message}`),
+			].join("\n"),
+		);
+		this.name = "PolicyValidationError";
+		this.errors = errors;
+	}
+}
+
+/**
+ * Assert that a value is a valid policy document.
+ * @param {unknown} document - The value to validate.
+ * @throws {PolicyValidationError} If the document is invalid.
+ */
+export function assertValidPolicy(
+	document: unknown,
+): asserts document is IPolicyDocument {
+	const errors = validatePolicy(document);
+
+	if (errors.length > 0) {
+		throw new PolicyValidationError(errors);
+	}
+}
+
+/**
+ * Validate a policy document, e.g. one read from a file, without creating an access control.
+ * Rules are checked against the schema registered for their permission type, then its rule validator.
+ * @param {unknown} document - The value to validate.
+ * @returns {IPolicyValidationError[]} Every error found, empty if the document is valid.
+ */
+export function validatePolicy(document: unknown): IPolicyValidationError[] {
+	const errors: IPolicyValidationError[] = [];
+	const report = (path: string, message: string) => {
+		errors.push({ message, path });
+	};
+
+	if (!isRecord(document)) {
+		report("", "must be an object");
+		return errors;
+	}
+
+	if (document.version !== 1) {
+		report("/version", "must be 1");
+	}
+
+	if (
+		document.combiningAlgorithm !== undefined &&
+		!isCombiningAlgorithm(document.combiningAlgorithm)
+	) {
+		report("/combiningAlgorithm", "must be a combining algorithm");
+	}
+
+	if (document.combiningAlgorithms !== undefined) {
+		if (isRecord(document.combiningAlgorithms)) {
+			Object.entries(document.combiningAlgorithms).forEach(
+				([type, algorithm]) => {
+					if (!isCombiningAlgorithm(algorithm)) {
+						report(
+							`/combiningAlgorithms/${escapePointer(type)}`,
+							"must be a combining algorithm",
+						);
+					}
+				},
+			);
+		} else {
+			report("/combiningAlgorithms", "must be an object");
+		}
+	}
+
+	const groups = validateArray(document.groups, "/groups", report);
+	const roles = validateArray(document.roles, "/roles", report);
+	const groupCodes = validateCodes(groups, "/groups", report);
+	const groupInheritance = new Map<string, string>();
+
+	validateCodes(roles, "/roles", report);
+
+	groups.forEach((group, index) => {
+		const path = `/groups/${index}`;
+
+		if (!isRecord(group)) {
+			return;
+		}
+
+		if (group.inheritFrom !== undefined) {
+			if (typeof group.inheritFrom !== "string") {
+				report(`${path}/inheritFrom`, "must be a string");
+			} else if (!groupCodes.has(group.inheritFrom)) {
+				report(
+					`${path}/inheritFrom`,
+					`group ${group.inheritFrom} is not defined in the policy`,
+				);
+			} else if (typeof group.code === "string") {
+				groupInheritance.set(group.code, group.inheritFrom);
+			}
+		}
+
+		validatePermissions(group.permissions, `${path}/permissions`, report);
+	});
+
+	groups.forEach((group, index) => {
+		if (isRecord(group) && typeof group.code === "string") {
+			const cycle = findInheritanceCycle(group.code, groupInheritance);
+
+			if (cycle) {
+				report(
+					`/groups/${index}/inheritFrom`,
+					`group inheritance cycle detected: ${cycle.join(" -> ")}`,
+				);
+			}
+		}
+	});
+
+	roles.forEach((role, index) => {
+		const path = `/roles/${index}`;
+
+		if (!isRecord(role)) {
+			return;
+		}
+
+		if (role.strict !== undefined && typeof role.strict !== "boolean") {
+			report(`${path}/strict`, "must be a boolean");
+		}
+
+		validateArray(role.groups, `${path}/groups`, report).forEach(
+			(group, groupIndex) => {
+				if (typeof group !== "string") {
+					report(`${path}/groups/${groupIndex}`, "must be a string");
+				} else if (!groupCodes.has(group)) {
+					report(
+						`${path}/groups/${groupIndex}`,
+						`group ${group} is not defined in the policy`,
+					);
+				}
+			},
+		);
+
+		if (
+			role.strict === true &&
+			Array.isArray(role.groups) &&
+			role.groups.length > 1
+		) {
+			report(`${path}/groups`, "a strict role can belong to one group only");
+		}
+
+		validatePermissions(role.permissions, `${path}/permissions`, report);
+	});
+
+	return errors;
+}
+
+/**
+ * Validate a value against a schema, e.g. a serialized rule or the parameters of an action.
+ * Regular expressions can either be serialized or instances of `RegExp`.
+ * @param {unknown} value - The value to validate.
+ * @param {RuleSchema} schema - The schema.
+ * @param {string} [path] - The JSON pointer to the value, prefixing the paths of the errors.
+ * @returns {IPolicyValidationError[]} Every error found, empty if the value is valid.
+ */
+export function validateSchema(
+	value: unknown,
+	schema: RuleSchema,
+	path = "",
+): IPolicyValidationError[] {
+	const errors: IPolicyValidationError[] = [];
+
+	validateRule(value, schema, path, (errorPath, message) => {
+		errors.push({ message, path: errorPath });
+	});
+
+	return errors;
+}
+
+/**
+ * Escape a property name to be used as a JSON pointer token.
+ * @param {string} token - The property name.
+ * @returns {string} The escaped token.
+ */
+function escapePointer(token: string): string {
+	return token.replaceAll("~", "~0").replaceAll("/", "~1");
+}
+
+/**
+ * Find the inheritance cycle a group is part of.
+ * @param {string} code - The code of the group.
+ * @param {Map<string, string>} inheritance - The code of the parent of each group.
+ * @returns {string[] | undefined} The codes forming the cycle, or undefined if there is none.
+ */
+function findInheritanceCycle(
+	code: string,
+	inheritance: Map<string, string>,
+): string[] | undefined {
+	const chain = [code];
+	let parent = inheritance.get(code);
+
+	while (parent !== undefined && !chain.includes(parent)) {
+		chain.push(parent);
+		parent = inheritance.get(parent);
+	}
+
+	return parent === code ? [...chain, code] : undefined;
+}
+
+/**
+ * Check whether a value is a combining algorithm.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a combining algorithm.
+ */
+function isCombiningAlgorithm(value: unknown): value is CombiningAlgorithm {
+	return combiningAlgorithms.includes(value as CombiningAlgorithm);
+}
+
+/**
+ * Check whether a value is a plain object.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is an object which is not an array.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate that a value is an array.
+ * @param {unknown} value - The value to validate.
+ * @param {string} path - The JSON pointer to the value.
+ * @param {function(string, string): void} report - The function reporting errors.
+ * @returns {unknown[]} The array, or an empty array if the value is not one.
+ */
+function validateArray(
+	value: unknown,
+	path: string,
+	report: (path: string, message: string) => void,
+): unknown[] {
+	if (!Array.isArray(value)) {
+		report(path, "must be an array");
+		return [];
+	}
+
+	return value;
+}
+
+/**
+ * Validate that every entry is an object with a unique code.
+ * @param {unknown[]} entries - The roles or groups.
+ * @param {string} path - The JSON pointer to the entries.
+ * @param {function(string, string): void} report - The function reporting errors.
+ * @returns {Set<string>} The codes of the entries.
+ */
+function validateCodes(
+	entries: unknown[],
+	path: string,
+	report: (path: string, message: string) => void,
+): Set<string> {
+	const codes = new Set<string>();
+
+	entries.forEach((entry, index) => {
+		if (!isRecord(entry)) {
+			report(`${path}/${index}`, "must be an object");
+		} else if (typeof entry.code !== "string" || entry.code === "") {
+			report(`${path}/${index}/code`, "must be a non-empty string");
+		} else if (codes.has(entry.code)) {
+			report(`${path}/${index}/code`, `duplicate code ${entry.code}`);
+		} else {
+			codes.add(entry.code);
+		}
+	});
+
+	return codes;
+}
+
+/**
+ * Validate the permissions of a role or group.
+ * @param {unknown} permissions - The permissions to validate.
+ * @param {string} path - The JSON pointer to the permissions.
+ * @param {function(string, string): void} report - The function reporting errors.
+ */
+function validatePermissions(
+	permissions: unknown,
+	path: string,
+	report: (path: string, message: string) => void,
+) {
+	validateArray(permissions, path, report).forEach((permission, index) => {
+		const permissionPath = `${path}/${index}`;
+
+		if (!isRecord(permission)) {
+			report(permissionPath, "must be an object");
+			return;
+		}
+
+		const { type } = permission;
+
+		if (typeof type !== "string") {
+			report(`${permissionPath}/type`, "must be a string");
+		} else if (!getPermissionFactory(type)) {
+			report(
+				`${permissionPath}/type`,
+				`permission type ${type} is not registered`,
+			);
+		}
+
+		if (permission.validity !== undefined) {
+			validateRule(
+				permission.validity,
+				validitySchema,
+				`${permissionPath}/validity`,
+				report,
+			);
+		}
+
+		const registration =
+			typeof type === "string" ? getPermissionRegistration(type) : undefined;
+
+		validateArray(permission.rules, `${permissionPath}/rules`, report).forEach(
+			(rule, ruleIndex) => {
+				const rulePath = `${permissionPath}/rules/${ruleIndex}`;
+				let valid = true;
+
+				validateRule(rule, registration?.ruleSchema, rulePath, (...error) => {
+					valid = false;
+					report(...error);
+				});
+
+				if (valid && registration?.validateRule) {
+					registration
+						.validateRule(rule as SerializedValue)
+						.forEach(({ message, path }) => {
+							report(`${rulePath}${path}`, message);
+						});
+				}
+			},
+		);
+	});
+}
+
+/**
+ * Validate a rule against the schema of its permission type.
+ * @param {unknown} rule - The rule to validate.
+ * @param {RuleSchema | undefined} schema - The schema, or undefined to accept any rule.
+ * @param {string} path - The JSON pointer to the rule.
+ * @param {function(string, string): void} report - The function reporting errors.
+ */
+function validateRule(
+	rule: unknown,
+	schema: RuleSchema | undefined,
+	path: string,
+	report: (path: string, message: string) => void,
+) {
+	if (!schema) {
+		return;
+	}
+
+	if (!isRecord(rule)) {
+		report(path, "must be an object");
+		return;
+	}
+
+	Object.entries(schema).forEach(([property, { kinds, optional }]) => {
+		const value = rule[property];
+		const propertyPath = `${path}/${escapePointer(property)}`;
+
+		if (value === undefined) {
+			if (!optional) {
+				report(propertyPath, "is required");
+			}
+		} else if (kinds.length === 1 && nestedValidators[kinds[0]]) {
+			nestedValidators[kinds[0]]!(value, propertyPath).forEach((error) => {
+				report(error.path, error.message);
+			});
+		} else if (!kinds.some((kind) => valueKindChecks[kind](value))) {
+			report(propertyPath, `must be one of: ${kinds.join(", ")}`);
+		} else if (isRecord(value) && !(value instanceof RegExp)) {
+			try {
+				new RegExp(value.$regex as string, value.flags as string | undefined);
+			} catch {
+				report(propertyPath, "must be a valid regular expression");
+			}
+		}
+	});
+
+	Object.keys(rule)
+		.filter((property) => !(property in schema))
+		.forEach((property) => {
+			report(`${path}/${escapePointer(property)}`, "is not a known property");
+		});
+}
@@ -0,0 +1,272 @@
+import type { IPolicyValidationError } from "../types/policy-types.js";
+import type { Action } from "./access-control.js";
+
+/**
+ * Interface for the attributes passed with an action and evaluated by rule conditions.
+ */
+export interface IActionContext {
+	[key: string]: unknown;
+
+	/**
+	 * Attributes of the environment, e.g. the current hour or the client IP.
+	 */
+	environment?: Record<string, unknown>;
+
+	/**
+	 * Attributes of the accessed resource, e.g. its owner.
+	 */
+	resource?: Record<string, unknown>;
+
+	/**
+	 * Attributes of the subject performing the action, e.g. its id or department.
+	 */
+	subject?: Record<string, unknown>;
+}
+
+/**
+ * Reference to a value of the context by its dotted path, e.g. `{ ref: "subject.id" }`.
+ * The parameters and the role code of the action are available as `parameters` and `roleCode`.
+ */
+export interface IConditionReference {
+	ref: string;
+}
+
+/**
+ * Operand of a condition, either a reference to a value of the context or a literal value.
+ */
+export type ConditionOperand =
+	| boolean
+	| ConditionOperand[]
+	| IConditionReference
+	| null
+	| number
+	| string;
+
+/**
+ * Serializable condition on the context of an action.
+ *
+ * @example
+ * // Editors can edit the articles they own, during business hours
+ * const condition: ConditionExpression = {
+ *   and: [
+ *     { eq: [{ ref: "subject.id" }, { ref: "resource.ownerId" }] },
+ *     { gte: [{ ref: "environment.hour" }, 9] },
+ *     { lt: [{ ref: "environment.hour" }, 18] },
+ *   ],
+ * };
+ */
+export type ConditionExpression =
+	| { and: ConditionExpression[] }
+	| { eq: [ConditionOperand, ConditionOperand] }
+	| { gt: [ConditionOperand, ConditionOperand] }
+	| { gte: [ConditionOperand, ConditionOperand] }
+	| { in: [ConditionOperand, ConditionOperand] }
+	| { lt: [ConditionOperand, ConditionOperand] }
+	| { lte: [ConditionOperand, ConditionOperand] }
+	| { ne: [ConditionOperand, ConditionOperand] }
+	| { not: ConditionExpression }
+	| { or: ConditionExpression[] };
+
+/**
+ * Function deciding whether a rule applies to an action from its context. Unlike expressions, predicates can't be serialized.
+ */
+export type ConditionPredicate = (
+	context: IActionContext,
+	action: Action,
+) => boolean;
+
+/**
+ * Condition restricting the actions a rule matches.
+ */
+export type RuleCondition = ConditionExpression | ConditionPredicate;
+
+const comparisonOperators = ["eq", "gt", "gte", "in", "lt", "lte", "ne"];
+const logicalOperators = ["and", "not", "or"];
+
+/**
+ * Check the condition of a rule against an action.
+ * @param {unknown} rule - The rule, whose optional `condition` property is checked.
+ * @param {Action} action - The action.
+ * @returns {boolean | undefined} Whether the condition is met, or undefined if the rule has no condition.
+ */
+export function checkRuleCondition(
+	rule: unknown,
+	action: Action,
+): boolean | undefined {
+	const { condition } = (rule ?? {}) as { condition?: RuleCondition };
+
+	return condition === undefined
+		? undefined
+		: evaluateCondition(condition, action);
+}
+
+/**
+ * Evaluate a condition against an action and its context. A comparison referencing a value missing from
+ * the context is never met, so that e.g. an ownership check can't be passed by leaving the context out.
+ * @param {RuleCondition} condition - The condition.
+ * @param {Action} action - The action.
+ * @returns {boolean} True if the condition is met.
+ */
+export function evaluateCondition(
+	condition: RuleCondition,
+	action: Action,
+): boolean {
+	if (typeof condition === "function") {
+		return condition(action.getContext(), action);
+	}
+
+	const [[operator, operands]] = Object.entries(condition);
+
+	switch (operator) {
+		case "and":
+			return (operands as ConditionExpression[]).every((operand) =>
+				evaluateCondition(operand, action),
+			);
+		case "not":
+			return !evaluateCondition(operands as ConditionExpression, action);
+		case "or":
+			return (operands as ConditionExpression[]).some((operand) =>
+				evaluateCondition(operand, action),
+			);
+	}
+
+	const comparedOperands = operands as ConditionOperand[];
+	const [left, right] = comparedOperands.map((operand) =>
+		resolveOperand(operand, action),
+	);
+
+	if (
+		[left, right].some(
+			(value, index) =>
+				value === undefined && isReference(comparedOperands[index]),
+		)
+	) {
+		return false;
+	}
+
+	switch (operator) {
+		case "eq":
+			return left === right;
+		case "in":
+			return Array.isArray(right) && right.includes(left);
+		case "ne":
+			return left !== right;
+	}
+
+	if (
+		!["number", "string"].includes(typeof left) ||
+		typeof left !== typeof right
+	) {
+		return false;
+	}
+
+	const [a, b] = [left, right] as [number, number];
+
+	switch (operator) {
+		case "gt":
+			return a > b;
+		case "gte":
+			return a >= b;
+		case "lt":
+			return a < b;
+		default:
+			return a <= b;
+	}
+}
+
+/**
+ * Validate a serialized condition expression.
+ * @param {unknown} condition - The condition to validate.
+ * @param {string} [path] - The JSON pointer to the condition, prefixing the paths of the errors.
+ * @returns {IPolicyValidationError[]} Every error found, empty if the condition is valid.
+ */
+export function validateCondition(
+	condition: unknown,
+	path = "",
+): IPolicyValidationError[] {
+	if (
+		typeof condition !== "object" ||
+		condition === null ||
+		Array.isArray(condition) ||
+		Object.keys(condition).length !== 1
+	) {
+		return [{ message: "must be an object with a single operator", path }];
+	}
+
+	const [[operator, operands]] = Object.entries(condition);
+	const operandsPath = `${path}/${operator}`;
+
+	if (operator === "not") {
+		return validateCondition(operands, operandsPath);
+	}
+
+	if (logicalOperators.includes(operator)) {
+		return Array.isArray(operands)
+			? operands.flatMap((operand, index) =>
+					validateCondition(operand, `${operandsPath}/${index}`),
+				)
+			: [{ message: "must be an array of conditions", path: operandsPath }];
+	}
+
+	if (!comparisonOperators.includes(operator)) {
+		return [{ message: `unknown operator ${operator}`, path }];
+	}
+
+	if (!Array.isArray(operands) || operands.length !== 2) {
+		return [
+			{ message: "must be an array of two operands", path: operandsPath },
+		];
+	}
+
+	return operands.flatMap((operand, index) =>
+		isReference(operand) && typeof operand.ref !== "string"
+			? [
+					{
+						message: "must be a string",
+						path: `${operandsPath}/${index}/ref`,
+					},
+				]
+			: [],
+	);
+}
+
+/**
+ * Check whether an operand is a reference.
+ * @param {unknown} operand - The operand.
+ * @returns {boolean} True if the operand is a reference.
+ */
+function isReference(operand: unknown): operand is IConditionReference {
+	return typeof operand === "object" && operand !== null && "ref" in operand;
+}
+
+/**
+ * Resolve an operand, looking references up in the context of the action.
+ * @param {ConditionOperand} operand - The operand.
+ * @param {Action} action - The action.
+ * @returns {unknown} The value of the operand, undefined if a reference can't be resolved.
+ */
+function resolveOperand(operand: ConditionOperand, action: Action): unknown {
+	if (Array.isArray(operand)) {
+		return operand.map((item) => resolveOperand(item, action));
+	}
+
+	if (!isReference(operand)) {
+		return operand;
+	}
+
+	const scope: Record<string, unknown> = {
+		...action.getContext(),
+		parameters: action.getParameters(),
+		roleCode: action.getRoleCode(),
+	};
+
+	return operand.ref
+		.split(".")
+		.reduce<unknown>(
+			(value, key) =>
+				typeof value === "object" && value !== null
+					? (value as Record<string, unknown>)[key]
+					: undefined,
+			scope,
+		);
+}
@@ -0,0 +1,272 @@
+import type {
+	IPolicyValidationError,
+	RuleSchema,
+} from "../types/policy-types.js";
+import type { Group, Permission, Role } from "./access-control.js";
+
+/**
+ * Function returning the current time, injected into an access control so that tests can freeze time.
+ */
+export type Clock = () => Date;
+
+/**
+ * Date accepted by validity periods, a `Date`, a timestamp in milliseconds or an ISO 8601 string.
+ */
+export type DateInput = Date | number | string;
+
+/**
+ * Interface for a window recurring every week, e.g. weekdays from 09:00 to 18:00.
+ */
+export interface ITimeWindow {
+	/**
+	 * The days of the week the window opens on, from 0 for Sunday to 6 for Saturday. Defaults to every day.
+	 */
+	days?: number[];
+
+	/**
+	 * The time the window opens, as `HH:MM`.
+	 */
+	from: string;
+
+	/**
+	 * The time the window closes, as `HH:MM`. A time before `from` closes the window on the next day.
+	 */
+	until: string;
+
+	/**
+	 * The offset of the timezone the times are expressed in, as `+HH:MM` or `-HH:MM`. Defaults to UTC.
+	 */
+	utcOffset?: string;
+}
+
+/**
+ * Interface for the period during which a rule or a permission is in effect.
+ */
+export interface IValidity {
+	/**
+	 * The date the rule comes into effect.
+	 */
+	validFrom?: DateInput;
+
+	/**
+	 * The date the rule expires, excluded from the period.
+	 */
+	validUntil?: DateInput;
+
+	/**
+	 * The recurring windows the rule is restricted to, within its period.
+	 */
+	windows?: ITimeWindow[];
+}
+
+/**
+ * Whether a rule or permission is in effect at a given time: `pending` before its period,
+ * `expired` after it, and `inactive` within it but outside of its windows.
+ */
+export type ValidityStatus = "active" | "expired" | "inactive" | "pending";
+
+/**
+ * Interface for a rule, or a whole permission, whose validity period is over.
+ */
+export interface IExpiredRule {
+	/**
+	 * The role or group the permission is assigned to.
+	 */
+	origin: Group | Role;
+	permission: Permission;
+
+	/**
+	 * The expired rule, undefined if the whole permission expired.
+	 */
+	rule?: unknown;
+	validUntil: Date;
+}
+
+/**
+ * Schema of the validity properties of rules and permissions.
+ */
+export const validitySchema: RuleSchema = {
+	validFrom: { kinds: ["date"], optional: true },
+	validUntil: { kinds: ["date"], optional: true },
+	windows: { kinds: ["time-windows"], optional: true },
+};
+
+const timePattern = /^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const utcOffsetPattern = /^[+-](?:[01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Get the validity properties of a rule.
+ * @param {unknown} rule - The rule.
+ * @returns {IValidity | undefined} The validity, or undefined if the rule is not time-bound.
+ */
+export function getValidity(rule: unknown): IValidity | undefined {
+	const { validFrom, validUntil, windows } = (rule ?? {}) as IValidity;
+
+	if (validFrom === undefined && validUntil === undefined && !windows) {
+		return undefined;
+	}
+
+	return { validFrom, validUntil, windows };
+}
+
+/**
+ * Get the status of a validity period at a given time.
+ * @param {IValidity} validity - The validity period.
+ * @param {Date} now - The time.
+ * @returns {ValidityStatus} The status of the period.
+ */
+export function getValidityStatus(
+	{ validFrom, validUntil, windows }: IValidity,
+	now: Date,
+): ValidityStatus {
+	const time = now.getTime();
+
+	if (validUntil !== undefined && time >= toDate(validUntil).getTime()) {
+		return "expired";
+	}
+
+	if (validFrom !== undefined && time < toDate(validFrom).getTime()) {
+		return "pending";
+	}
+
+	if (windows && !windows.some((window) => isWithinWindow(window, time))) {
+		return "inactive";
+	}
+
+	return "active";
+}
+
+/**
+ * Check whether a value is a valid date input.
+ * @param {unknown} value - The value.
+ * @returns {boolean} True if the value is a `Date`, a timestamp or a string parsed as a date.
+ */
+export function isDateInput(value: unknown): value is DateInput {
+	return (
+		(value instanceof Date ||
+			typeof value === "number" ||
+			typeof value === "string") &&
+		!Number.isNaN(new Date(value).getTime())
+	);
+}
+
+/**
+ * Convert a date input into a date.
+ * @param {DateInput} value - The date input.
+ * @returns {Date} The date.
+ */
+export function toDate(value: DateInput): Date {
+	return value instanceof Date ? value : new Date(value);
+}
+
+/**
+ * Validate the recurring windows of a rule or permission.
+ * @param {unknown} windows - The windows to validate.
+ * @param {string} [path] - The JSON pointer to the windows, prefixing the paths of the errors.
+ * @returns {IPolicyValidationError[]} Every error found, empty if the windows are valid.
+ */
+export function validateTimeWindows(
+	windows: unknown,
+	path = "",
+): IPolicyValidationError[] {
+	if (!Array.isArray(windows)) {
+		return [{ message: "must be an array of time windows", path }];
+	}
+
+	return windows.flatMap((window: unknown, index) => {
+		const windowPath = `${path}/${index}`;
+
+		if (typeof window !== "object" || window === null) {
+			return [{ message: "must be an object", path: windowPath }];
+		}
+
+		const { days, from, until, utcOffset, ...rest } = window as Record<
+			string,
+			unknown
+		>;
+		const errors: IPolicyValidationError[] = [];
+
+		[
+			["from", from],
+			["until", until],
+		].forEach(([property, value]) => {
+			if (typeof value !== "string" || !timePattern.test(value)) {
+				errors.push({
+					message: "must be a time as HH:MM",
+					path: `${windowPath}/${property}`,
+				});
+			}
+		});
+
+		if (
+			days !== undefined &&
+			!(
+				Array.isArray(days) &&
+				days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+			)
+		) {
+			errors.push({
+				message: "must be an array of days from 0 to 6",
+				path: `${windowPath}/days`,
+			});
+		}
+
+		if (
+			utcOffset !== undefined &&
+			!(typeof utcOffset === "string" && utcOffsetPattern.test(utcOffset))
+		) {
+			errors.push({
+				message: "must be an offset as +HH:MM or -HH:MM",
+				path: `${windowPath}/utcOffset`,
+			});
+		}
+
+		Object.keys(rest).forEach((property) => {
+			errors.push({
+				message: "is not a known property",
+				path: `${windowPath}/${property}`,
+			});
+		});
+
+		return errors;
+	});
+}
+
+/**
+ * Check whether a time falls within a recurring window.
+ * @param {ITimeWindow} window - The window.
+ * @param {number} time - The time, in milliseconds since the epoch.
+ * @returns {boolean} True if the window is open at that time.
+ */
+function isWithinWindow(
+	{ days, from, until, utcOffset = "+00:00" }: ITimeWindow,
+	time: number,
+): boolean {
+	const localMinutes = Math.floor(time / 60000) + toMinutes(utcOffset);
+	const minute = ((localMinutes % 1440) + 1440) % 1440;
+	// 1970-01-01 was a Thursday
+	const day = (((Math.floor(localMinutes / 1440) + 4) % 7) + 7) % 7;
+	const opensOn = (weekday: number) => !days || days.includes(weekday);
+	const [start, end] = [toMinutes(from), toMinutes(until)];
+
+	if (start < end) {
+		return opensOn(day) && minute >= start && minute < end;
+	}
+
+	return (
+		(opensOn(day) && minute >= start) ||
+		(opensOn((day + 6) % 7) && minute < end)
+	);
+}
+
+/**
+ * Convert a time or an offset into a number of minutes.
+ * @param {string} value - The time as `HH:MM`, or the offset as `+HH:MM` or `-HH:MM`.
+ * @returns {number} The number of minutes.
+ */
+function toMinutes(value: string): number {
+	const sign = value.startsWith("-") ? -1 : 1;
+	const [hours, minutes] = value.replace(/^[+-]/, "").split(":").map(Number);
+
+	return sign * (hours * 60 + minutes);
+}
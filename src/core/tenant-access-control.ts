@@ -0,0 +1,369 @@
+import {
+	AccessControl,
+	type Action,
+	type DecisionMap,
+	Group,
+	type IAccessControlOptions,
+	type IPermissionDecision,
+	Role,
+} from "./access-control.js";
+import type { IDecisionTrace } from "./decision-trace.js";
+import { formatMessage } from "./message-catalog.js";
+import { PermissionDeniedError } from "./permission-error.js";
+import { PermissionMessage } from "./permission-message.js";
+import { getPermissionFactory } from "./permission-registry.js";
+import { getValidityStatus } from "./rule-validity.js";
+
+/**
+ * Options of the policy of a tenant, the base policy being the one of the tenant access control.
+ */
+export type ITenantOptions = Omit<IAccessControlOptions, "base">;
+
+/**
+ * Class scoping access control to tenants: every tenant overlays a shared base policy with its own
+ * roles, groups and rules, and actions are decided against the policy of the tenant they carry.
+ * A role code only resolves against the policy of its tenant and the base policy, never against another tenant.
+ *
+ * @example
+ * const tenants = new TenantAccessControl(basePolicy);
+ * const acme = tenants.addTenant("acme", [acmeEditor]);
+ *
+ * tenants.can(createRouteAccessAction("editor", { route: "/articles" }, { tenantId: "acme" }));
+ */
+export class TenantAccessControl {
+	private tenants = new Map<
+		string,
+		{ accessControl: AccessControl; options: IAccessControlOptions }
+	>();
+
+	/**
+	 * @param {AccessControl} base - The policy shared by every tenant, deciding the actions without a tenant.
+	 */
+	constructor(private base: AccessControl) {}
+
+	/**
+	 * Add a tenant overlaying the base policy. A role of the tenant sharing the code of a base role gets the
+	 * permissions of both, and the groups of the tenant may inherit from the groups of the base policy.
+	 * @param {string} tenantId - The id of the tenant.
+	 * @param {Role[]} [roles] - The roles of the tenant.
+	 * @param {Group[]} [groups] - The groups of the tenant.
+	 * @param {ITenantOptions} [options] - The options of the tenant policy, its combining algorithms defaulting to the base ones.
+	 * @returns {AccessControl} The policy of the tenant, which can be modified like any access control.
+	 * @throws {Error} If the tenant already exists.
+	 */
+	addTenant(
+		tenantId: string,
+		roles: Role[] = [],
+		groups: Group[] = [],
+		options: ITenantOptions = {},
+	): AccessControl {
+		if (this.tenants.has(tenantId)) {
+			throw new Error(`tenant ${tenantId} already exists`);
+		}
+
+		const tenantOptions = { ...options, base: this.base };
+		const accessControl = new AccessControl(roles, groups, tenantOptions);
+
+		this.tenants.set(tenantId, { accessControl, options: tenantOptions });
+
+		return accessControl;
+	}
+
+	/**
+	 * Assert that a given action is allowed.
+	 * @param {A extends Action} action - The action to assert.
+	 * @returns {IPermissionDecision<A>} The successful decision.
+	 * @throws {PermissionDeniedError} If the action is not allowed.
+	 */
+	assert<A extends Action>(action: A): IPermissionDecision<A> {
+		const decision = this.decide(action);
+
+		if (decision.status === "failed") {
+			throw new PermissionDeniedError(decision);
+		}
+
+		return decision;
+	}
+
+	/**
+	 * Check whether a given action is allowed.
+	 * @param {Action} action - The action to check.
+	 * @returns {boolean} True if the action is allowed.
+	 */
+	can(action: Action): boolean {
+		return this.decide(action).status === "success";
+	}
+
+	/**
+	 * Check whether a given action is not allowed.
+	 * @param {Action} action - The action to check.
+	 * @returns {boolean} True if the action is not allowed.
+	 */
+	cannot(action: Action): boolean {
+		return !this.can(action);
+	}
+
+	/**
+	 * Copy the policy of a tenant into a new tenant. The roles, groups, permissions and delegations that haven't
+	 * expired of the tenant are copied, while the groups and delegations of the base policy remain shared.
+	 * Functions given to permission constructors, such as route middlewares, are not copied.
+	 * @param {string} sourceId - The id of the tenant to copy.
+	 * @param {string} targetId - The id of the new tenant.
+	 * @returns {AccessControl} The policy of the new tenant.
+	 * @throws {Error} If the source tenant doesn't exist, the target tenant already exists, or a permission type is not registered.
+	 */
+	cloneTenant(sourceId: string, targetId: string): AccessControl {
+		const source = this.tenants.get(sourceId);
+
+		if (!source) {
+			throw new Error(`tenant ${sourceId} doesn't exist`);
+		}
+
+		if (this.tenants.has(targetId)) {
+			throw new Error(`tenant ${targetId} already exists`);
+		}
+
+		const shared = new Set(getReachableGroups(this.base));
+		const clones = new Map<Group, Group>();
+		const cloneGroup = (group: Group): Group => {
+			if (shared.has(group)) {
+				return group;
+			}
+
+			let clone = clones.get(group);
+
+			if (!clone) {
+				const inheritFrom = group.getInheritFrom();
+
+				clone = new Group(
+					group.getCode(),
+					inheritFrom && cloneGroup(inheritFrom),
+				);
+				clones.set(group, clone);
+				copyPermissions(group, clone);
+			}
+
+			return clone;
+		};
+		const roles = source.accessControl.getRoles().map((role) => {
+			const clone = new Role(
+				role.getCode(),
+				role.getConfig(),
+				role.isStrict() ? { strict: true } : {},
+			);
+
+			role.getGroups().forEach((group) => {
+				clone.assignGroup(cloneGroup(group));
+			});
+			copyPermissions(role, clone);
+
+			return clone;
+		});
+		const groups = source.accessControl.getGroups().map(cloneGroup);
+		const baseDelegations = this.base.getDelegations();
+		const now = source.accessControl.getTime();
+		const {
+			audit,
+			cache,
+			clock,
+			combiningAlgorithm,
+			combiningAlgorithms,
+			impersonators,
+			locale,
+		} = source.options;
+
+		const accessControl = this.addTenant(targetId, roles, groups, {
+			audit,
+			cache,
+			clock,
+			combiningAlgorithm,
+			combiningAlgorithms: { ...combiningAlgorithms },
+			impersonators,
+			locale,
+		});
+
+		// Delegations name roles by code, so the copies apply to the cloned roles as is
+		source.accessControl
+			.getDelegations()
+			.filter(
+				(delegation) =>
+					!baseDelegations.includes(delegation) &&
+					getValidityStatus(delegation, now) !== "expired",
+			)
+			.forEach((delegation) => {
+				accessControl.delegate({
+					...delegation,
+					...(delegation.types && { types: [...delegation.types] }),
+				});
+			});
+
+		return accessControl;
+	}
+
+	/**
+	 * Decide whether a given action is allowed, against the policy of its tenant.
+	 * Actions without a tenant are decided against the base policy, and actions of an unknown tenant fail.
+	 * @param {A extends Action} action - The action to decide.
+	 * @returns {IPermissionDecision<A>} The decision for the action.
+	 */
+	decide<A extends Action>(action: A): IPermissionDecision<A> {
+		return (
+			this.resolve(action)?.decide(action) ??
+			rejectTenant(action, this.base.getLocale())
+		);
+	}
+
+	/**
+	 * Explain how the decision for a given action is made, step by step, against the policy of its tenant.
+	 * @param {A extends Action} action - The action to explain.
+	 * @returns {IDecisionTrace<A>} The trace of the decision, without steps if the tenant is unknown.
+	 */
+	explain<A extends Action>(action: A): IDecisionTrace<A> {
+		return (
+			this.resolve(action)?.explain(action) ?? {
+				action,
+				decision: rejectTenant(action, this.base.getLocale()),
+				steps: [],
+			}
+		);
+	}
+
+	/**
+	 * Get the policy shared by every tenant.
+	 * @returns {AccessControl} The base policy.
+	 */
+	getBase(): AccessControl {
+		return this.base;
+	}
+
+	/**
+	 * Get the policy of a tenant.
+	 * @param {string} tenantId - The id of the tenant.
+	 * @returns {AccessControl | undefined} The policy of the tenant, or undefined if the tenant doesn't exist.
+	 */
+	getTenant(tenantId: string): AccessControl | undefined {
+		return this.tenants.get(tenantId)?.accessControl;
+	}
+
+	/**
+	 * Get the ids of every tenant.
+	 * @returns {string[]} The tenant ids, in the order the tenants were added.
+	 */
+	getTenantIds(): string[] {
+		return [...this.tenants.keys()];
+	}
+
+	/**
+	 * Decide a batch of actions against the policies of their tenants, without recording them into the audit logs
+	 * nor reading or writing the decision caches, like `AccessControl.probe`.
+	 * @param {T extends Action[] | Record<string, Action>} actions - The actions to decide, as an array or a record.
+	 * @returns {DecisionMap<T>} The decision for each action, under the index or key of the action.
+	 */
+	probe<T extends Action[] | Record<string, Action>>(
+		actions: T,
+	): DecisionMap<T> {
+		const decide = (action: Action) =>
+			this.resolve(action)?.probe([action])[0] ??
+			rejectTenant(action, this.base.getLocale());
+
+		if (Array.isArray(actions)) {
+			return actions.map(decide) as DecisionMap<T>;
+		}
+
+		return Object.fromEntries(
+			Object.entries(actions).map(([key, action]) => [key, decide(action)]),
+		) as DecisionMap<T>;
+	}
+
+	/**
+	 * Remove a tenant, disposing of its policy.
+	 * @param {string} tenantId - The id of the tenant to remove.
+	 */
+	removeTenant(tenantId: string) {
+		this.tenants.get(tenantId)?.accessControl.dispose();
+		this.tenants.delete(tenantId);
+	}
+
+	/**
+	 * Get the policy an action is decided against.
+	 * @param {Action} action - The action.
+	 * @returns {AccessControl | undefined} The policy of the tenant of the action, the base policy
+	 * if the action has no tenant, or undefined if the tenant is unknown.
+	 */
+	private resolve(action: Action): AccessControl | undefined {
+		const tenantId = action.getTenantId();
+
+		return tenantId === undefined ? this.base : this.getTenant(tenantId);
+	}
+}
+
+/**
+ * Copy the own permissions of a role or group onto another one, through the registered permission factories.
+ * @param {Group | Role} source - The role or group to copy the permissions of.
+ * @param {Group | Role} target - The role or group receiving the copies.
+ * @throws {Error} If a permission type is not registered.
+ */
+function copyPermissions(source: Group | Role, target: Group | Role) {
+	source
+		.getPermissions()
+		.filter((permission) => permission.getTarget() === source)
+		.forEach((permission) => {
+			const type = permission.getType();
+			const factory = getPermissionFactory(type);
+
+			if (!factory) {
+				throw new Error(`permission type ${type} can't be cloned`);
+			}
+
+			const copy = factory(
+				target,
+				permission.rules.map((rule) =>
+					typeof rule === "object" && rule !== null ? { ...rule } : rule,
+				),
+			);
+			const validity = permission.getValidity();
+
+			if (validity) {
+				copy.setValidity(validity);
+			}
+		});
+}
+
+/**
+ * Get every group reachable from an access control, through its groups, its roles and their ancestors.
+ * @param {AccessControl} accessControl - The access control.
+ * @returns {Group[]} The groups.
+ */
+function getReachableGroups(accessControl: AccessControl): Group[] {
+	return [
+		...accessControl.getGroups(),
+		...accessControl.getRoles().flatMap((role) => role.getInheritanceChain()),
+	].flatMap((group) => [group, ...group.getAncestors()]);
+}
+
+/**
+ * Create the decision rejecting an action of an unknown tenant.
+ * @param {A extends Action} action - The action.
+ * @param {string | string[]} locale - The locale of the message.
+ * @returns {IPermissionDecision<A>} The failed decision.
+ */
+function rejectTenant<A extends Action>(
+	action: A,
+	locale: string | string[],
+): IPermissionDecision<A> {
+	const messageParameters = { tenantId: action.getTenantId() ?? "" };
+
+	return {
+		action,
+		message: new PermissionMessage({
+			action,
+			code: "TENANT_NOT_FOUND",
+			message: formatMessage("tenantNotFound", messageParameters, locale),
+			messageKey: "tenantNotFound",
+			messageParameters,
+			status: "failed",
+		}),
+		permission: null,
+		status: "failed",
+	};
+}
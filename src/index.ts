@@ -8,7 +8,17 @@
  * - Type-safe API with full TypeScript support
  */
 
-import { AccessControl, Group, Role } from "./core";
+import {
+	AccessControl,
+	Group,
+	type IActionOptions,
+	type IRoleOptions,
+	Role,
+} from "./core";
+import type { IAuditOptions } from "./core/audit-log";
+import type { CombiningAlgorithm } from "./core/combining-algorithms";
+import type { IDecisionCacheOptions } from "./core/decision-cache";
+import type { Clock } from "./core/rule-validity";
 import {
 	ComponentAccessAction,
 	ComponentAccessPermission,
@@ -40,7 +50,176 @@ export {
 	AccessControl,
 } from "./core/access-control";
 
-export type { IPermissionMessage } from "./core/permission-message";
+export type {
+	DecisionMap,
+	IAccessControlOptions,
+	IActionOptions,
+	IPermissionDecision,
+	IRoleAccess,
+	IRoleLookup,
+	IRoleOptions,
+} from "./core/access-control";
+
+export type { CombiningAlgorithm } from "./core/combining-algorithms";
+
+export type {
+	DecisionTraceStep,
+	IDecisionTrace,
+	IPermissionTrace,
+	IRuleEntry,
+	IRuleEvaluation,
+} from "./core/decision-trace";
+
+export type {
+	IPermissionMessage,
+	IPermissionMessageDetails,
+	PermissionMessageCode,
+} from "./core/permission-message";
+
+export type { ActorMode, IActor, IDelegation } from "./core/delegation";
+
+export {
+	defaultLocale,
+	defaultMessages,
+	formatMessage,
+	getLocaleChain,
+	getRegisteredLocales,
+	type ILocaleOptions,
+	type MessageCatalog,
+	type MessageKey,
+	type MessageParameters,
+	registerLocale,
+} from "./core/message-catalog";
+
+export { PermissionDeniedError } from "./core/permission-error";
+
+export {
+	type ITenantOptions,
+	TenantAccessControl,
+} from "./core/tenant-access-control";
+
+export {
+	AuditLog,
+	type AuditOutcome,
+	type AuditSink,
+	type IAuditOptions,
+	type IAuditRecord,
+	type IAuditSink,
+	RingBufferAuditSink,
+	StreamAuditSink,
+} from "./core/audit-log";
+
+export {
+	DecisionCache,
+	type IDecisionCacheOptions,
+	type IDecisionCacheStats,
+} from "./core/decision-cache";
+
+export type {
+	PolicyEvent,
+	PolicyEventListener,
+	PolicyEventType,
+} from "./core/policy-events";
+
+export {
+	checkRuleCondition,
+	type ConditionExpression,
+	type ConditionOperand,
+	type ConditionPredicate,
+	evaluateCondition,
+	type IActionContext,
+	type IConditionReference,
+	type RuleCondition,
+	validateCondition,
+} from "./core/rule-conditions";
+
+export {
+	type Clock,
+	type DateInput,
+	getValidity,
+	getValidityStatus,
+	type IExpiredRule,
+	type ITimeWindow,
+	type IValidity,
+	isDateInput,
+	toDate,
+	validateTimeWindows,
+	type ValidityStatus,
+	validitySchema,
+} from "./core/rule-validity";
+
+export {
+	getPermissionFactory,
+	getPermissionRegistration,
+	getRegisteredPermissionTypes,
+	getRuleSchema,
+	type IPermissionRegistration,
+	type PermissionFactory,
+	registerPermissionFactory,
+} from "./core/permission-registry";
+
+export {
+	decodeValue,
+	deserializePolicy,
+	encodeValue,
+	serializePolicy,
+} from "./core/policy-serialization";
+
+export {
+	assertValidPolicy,
+	PolicyValidationError,
+	validatePolicy,
+	validateSchema,
+} from "./core/policy-validation";
+
+export {
+	diffPolicies,
+	formatPolicyTestReport,
+	getRoleCapabilities,
+	lintChecks,
+	lintPolicy,
+	parsePolicy,
+	parsePolicyDocument,
+	parsePolicyTestTable,
+	PolicySyntaxError,
+	PolicyTestTableError,
+	printPolicy,
+	runPolicyTests,
+} from "./policy";
+
+export type {
+	ICapabilityCatalogs,
+	ICapabilityOptions,
+	ICombiningAlgorithmChange,
+	IDecisionChange,
+	IInheritanceChange,
+	ILintCheck,
+	ILintFinding,
+	ILintIssue,
+	ILintOptions,
+	IPolicyDiff,
+	IPolicyDiffOptions,
+	IPolicyExpectation,
+	IPolicyTestReport,
+	IPolicyTestResult,
+	IRoleCapabilities,
+	IRuleChange,
+	LintRule,
+	LintSeverity,
+} from "./policy";
+
+export type {
+	IGroupDocument,
+	IPermissionDocument,
+	IPolicyDocument,
+	IPolicyValidationError,
+	IRoleDocument,
+	IRulePropertySchema,
+	ISerializedRegExp,
+	RuleSchema,
+	RuleValueKind,
+	SerializedValue,
+} from "./types/policy-types";
 
 export {
 	RouteAccessPermission,
@@ -62,7 +241,20 @@ export {
 	MenuAccessAction,
 } from "./permissions/menu/menu-permission";
 
+export {
+	CustomAccessPermission,
+	registerPermissionType,
+} from "./permissions/custom/custom-permission";
+
+export type {
+	ICustomPermissionRule,
+	IPermissionType,
+	IPermissionTypeDefinition,
+	PermissionMapOf,
+} from "./permissions/custom/custom-types";
+
 export type {
+	IPermissionTypeMap,
 	RolePermissions,
 	RolePermissionGroup,
 	GroupPermissions,
@@ -78,17 +270,20 @@ export type {
  * Creates a role
  *
  * @param code - The code of the role
+ * @param options - Optional role options, such as the strict single group mode
  * @returns {Role} A new instance of Role
  */
-export function createRole(code: string): Role {
-	return new Role(code);
+export function createRole(code: string, options?: IRoleOptions): Role {
+	return new Role(code, undefined, options);
 }
 
 /**
  * Creates a group
  *
  * @param code - The code of the group
+ * @param inheritFrom - Optional group to inherit permissions from
  * @returns {Group} A new instance of Group
+ * @throws {Error} If the inheritance forms a cycle
  */
 export function createGroup(code: string, inheritFrom?: Group): Group {
 	return new Group(code, inheritFrom);
@@ -102,14 +297,36 @@ export function createGroup(code: string, inheritFrom?: Group): Group {
  * @param {Object} config - Configuration options
  * @param {Role[]} config.roles - Initial roles to register
  * @param {Group[]} [config.groups] - Initial groups to register
+ * @param {CombiningAlgorithm} [config.combiningAlgorithm] - Algorithm combining every applicable permission
+ * @param {Object} [config.combiningAlgorithms] - Algorithms overriding the default one per permission type
+ * @param {boolean | IDecisionCacheOptions} [config.cache] - Cache decisions, cleared whenever the policy changes
+ * @param {Clock} [config.clock] - Clock evaluating time-bound rules, defaults to the system time
+ * @param {IAuditOptions} [config.audit] - Record every decision into audit sinks
+ * @param {string[]} [config.impersonators] - Codes of the privileged roles allowed to impersonate other roles
+ * @param {string | string[]} [config.locale] - Locale of the messages of the decisions, or locales in order of preference
  *
  * @returns {AccessControl} Preconfigured access control instance
  */
 export function createAccessControl(config: {
 	roles: Role[];
 	groups?: Group[];
+	combiningAlgorithm?: CombiningAlgorithm;
+	combiningAlgorithms?: Partial<Record<string, CombiningAlgorithm>>;
+	cache?: boolean | IDecisionCacheOptions;
+	clock?: Clock;
+	audit?: IAuditOptions;
+	impersonators?: string[];
+	locale?: string | string[];
 }): AccessControl {
-	return new AccessControl(config.roles, config.groups ?? []);
+	return new AccessControl(config.roles, config.groups ?? [], {
+		audit: config.audit,
+		cache: config.cache,
+		clock: config.clock,
+		combiningAlgorithm: config.combiningAlgorithm,
+		combiningAlgorithms: config.combiningAlgorithms,
+		impersonators: config.impersonators,
+		locale: config.locale,
+	});
 }
 
 /**
@@ -166,13 +383,15 @@ export function createMenuPermission(
  *
  * @param roleCode - The role code associated with the action
  * @param parameters - The parameters for the menu access action
+ * @param options - Optional action options, such as the context evaluated by rule conditions
  * @returns {MenuAccessAction} A new instance of MenuAccessAction
  */
 export function createMenuAccessAction(
 	roleCode: string,
 	parameters: IMenuAccessParameters,
+	options?: IActionOptions,
 ): MenuAccessAction {
-	return new MenuAccessAction(roleCode, parameters);
+	return new MenuAccessAction(roleCode, parameters, options);
 }
 
 /**
@@ -180,13 +399,15 @@ export function createMenuAccessAction(
  *
  * @param roleCode - The role code associated with the action
  * @param parameters - The parameters for the dropdown access action
+ * @param options - Optional action options, such as the context evaluated by rule conditions
  * @returns {DropdownAccessAction} A new instance of DropdownAccessAction
  */
 export function createDropdownAccessAction(
 	roleCode: string,
 	parameters: IDropdownAccessParameters,
+	options?: IActionOptions,
 ): DropdownAccessAction {
-	return new DropdownAccessAction(roleCode, parameters);
+	return new DropdownAccessAction(roleCode, parameters, options);
 }
 
 /**
@@ -207,13 +428,15 @@ export function createDropdownPermission(
  *
  * @param roleCode - The role code associated with the action
  * @param parameters - The parameters for the component access action
+ * @param options - Optional action options, such as the context evaluated by rule conditions
  * @returns {ComponentAccessAction} A new instance of ComponentAccessAction
  */
 export function createComponentAccessAction(
 	roleCode: string,
 	parameters: IComponentAccessParameters,
+	options?: IActionOptions,
 ): ComponentAccessAction {
-	return new ComponentAccessAction(roleCode, parameters);
+	return new ComponentAccessAction(roleCode, parameters, options);
 }
 
 /**
@@ -221,11 +444,13 @@ export function createComponentAccessAction(
  *
  * @param roleCode - The role code associated with the action
  * @param parameters - The parameters for the route access action
+ * @param options - Optional action options, such as the context evaluated by rule conditions
  * @returns {RouteAccessAction} A new instance of RouteAccessAction
  */
 export function createRouteAccessAction(
 	roleCode: string,
 	parameters: IRouteAccessParameters,
+	options?: IActionOptions,
 ): RouteAccessAction {
-	return new RouteAccessAction(roleCode, parameters);
+	return new RouteAccessAction(roleCode, parameters, options);
 }
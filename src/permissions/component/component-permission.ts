@@ -4,7 +4,19 @@ import type {
 	IComponentPermissionRule,
 } from "./component-types";
 
-import { Action, Group, Permission, PermissionMessage, Role } from "../../core";
+import {
+	Action,
+	checkRuleCondition,
+	Group,
+	type IActionOptions,
+	type IRuleEvaluation,
+	Permission,
+	PermissionMessage,
+	registerPermissionFactory,
+	Role,
+	validitySchema,
+} from "../../core";
+import { matchPattern } from "../../utilities";
 
 /**
  * Class representing an action for component access.
@@ -17,12 +29,14 @@ export class ComponentAccessAction extends Action<
 	/**
 	 * @param {string} roleCode - The code of the role associated with the action.
 	 * @param {IComponentAccessParameters} parameters - The parameters for the component access action.
+	 * @param {IActionOptions} [options] - The options of the action, such as its context.
 	 */
 	constructor(
 		protected roleCode: string,
 		protected parameters: IComponentAccessParameters,
+		options?: IActionOptions,
 	) {
-		super(roleCode, "component", parameters);
+		super(roleCode, "component", parameters, options);
 	}
 }
 
@@ -66,62 +80,130 @@ export class ComponentAccessPermission extends Permission<
 		super(target, "component", rules);
 	}
 
+	/**
+	 * Explain how each rule is evaluated against the identifier and action of the action.
+	 * A rule matches when its identifier matches, it lists the action and it is in effect, the first
+	 * matching rule with the exclude flag denies the action and skips the remaining rules.
+	 * @param {ComponentAccessAction} action - The action to evaluate the rules against.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {IRuleEvaluation<IComponentPermissionRule>[]} The evaluation of each rule.
+	 */
+	explainRules(
+		action: ComponentAccessAction,
+		now = new Date(),
+	): IRuleEvaluation<IComponentPermissionRule>[] {
+		if (action.getType() !== this.type) {
+			return super.explainRules(action, now);
+		}
+
+		const { action: accessAction, identifier } = action.getParameters();
+		let excludedBefore = false;
+
+		return this.getRuleEntries().map((entry) => {
+			if (excludedBefore) {
+				return { ...entry, excluded: false, matched: false, skipped: true };
+			}
+
+			const match = entry.rule.actions.includes(accessAction)
+				? matchPattern(entry.rule.identifier, identifier)
+				: undefined;
+			const validity = match && this.checkRuleValidity(entry, now);
+			const conditionMet = match && checkRuleCondition(entry.rule, action);
+			const matched =
+				!!match &&
+				conditionMet !== false &&
+				(validity ?? "active") === "active";
+			excludedBefore = matched && !!entry.rule.exclude;
+
+			return {
+				...entry,
+				...match,
+				...(typeof conditionMet === "boolean" && { conditionMet }),
+				excluded: excludedBefore,
+				matched,
+				skipped: false,
+				...(validity && { validity }),
+			};
+		});
+	}
+
+	/**
+	 * Check whether the permission applies to the action, i.e. whether any rule matches its identifier and action.
+	 * @param {ComponentAccessAction} action - The action to check.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {boolean} True if the permission applies.
+	 */
+	isApplicable(action: ComponentAccessAction, now = new Date()) {
+		return (
+			super.isApplicable(action, now) &&
+			this.explainRules(action, now).some(({ matched }) => matched)
+		);
+	}
+
 	/**
 	 * Validate the action against the permission rules.
 	 * @param {ComponentAccessAction} action - The action to validate.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
 	 * @returns {PermissionMessage | undefined} A message indicating the validation result or undefined if valid.
 	 */
-	validate(action: ComponentAccessAction) {
+	validate(action: ComponentAccessAction, now = new Date()) {
 		if (action.getType() !== this.type) {
 			return new PermissionMessage({
 				action,
-				message: "action type doesn't match the permission type",
+				code: "TYPE_MISMATCH",
+				messageKey: "typeMismatch",
+				messageParameters: {
+					actionType: String(action.getType()),
+					type: String(this.type),
+				},
 				status: "failed",
 				target: this.target,
 			});
 		}
 
-		const matchedRules = this.getRulesByAction(action);
+		const matchedRules = this.getRulesByAction(action, now);
 
 		if (matchedRules.length === 0) {
-			return new PermissionMessage({
+			const { action: accessAction, identifier } = action.getParameters();
+
+			return this.createDenialMessage(
 				action,
-				message: `action ${action.getParameters().action} are not allowed to perform in this component`,
-				status: "failed",
-				target: this.target,
-			});
+				now,
+				"componentDenied",
+				{ action: accessAction, identifier },
+				identifier,
+			);
 		}
 	}
 
 	/**
 	 * Get the rules that match the action.
 	 * @param {ComponentAccessAction} action - The action to check against the rules.
+	 * @param {Date} now - The time of the evaluation.
 	 * @returns {IComponentPermissionRule[]} An array of valid rules for the action.
 	 */
-	private getRulesByAction(action: ComponentAccessAction) {
-		const accessIdentifier = action.getParameters().identifier;
-		const accessAction = action.getParameters().action;
-		let validRules: IComponentPermissionRule[] = [];
-
-		for (const rule of this.getRules()) {
-			let validRule: IComponentPermissionRule | undefined = undefined;
-			if (
-				rule.identifier instanceof RegExp &&
-				rule.identifier.test(accessIdentifier)
-			) {
-				validRule = rule;
-			} else if (rule.identifier === accessIdentifier) {
-				validRule = rule;
-			}
+	private getRulesByAction(action: ComponentAccessAction, now: Date) {
+		const evaluations = this.explainRules(action, now);
 
-			if (validRule?.actions.includes(accessAction)) {
-				if (validRule.exclude) {
-					return [];
-				}
-				validRules.push(validRule);
-			}
+		if (evaluations.some(({ excluded }) => excluded)) {
+			return [];
 		}
 
-		return validRules;
+		return evaluations.filter(({ matched }) => matched).map(({ rule }) => rule);
 	}
 }
+
+registerPermissionFactory(
+	"component",
+	(target, rules) =>
+		new ComponentAccessPermission(target, rules as IComponentPermissionRule[]),
+	{
+		ruleSchema: {
+			actions: { kinds: ["string-array"] },
+			condition: { kinds: ["condition"], optional: true },
+			exclude: { kinds: ["boolean"], optional: true },
+			identifier: { kinds: ["regex", "string"] },
+			...validitySchema,
+		},
+	},
+);
@@ -1,16 +1,20 @@
+import type { IValidity, RuleCondition } from "../../core";
+
 export type ComponentAccessActionType = "component";
 
 export type ComponentAccessParametersActions<T = IComponentPermissionRule> =
 	T extends IComponentPermissionRule<infer A> ? A : never;
 
 export interface IComponentAccessParameters
-	extends Omit<IComponentPermissionRule, "actions"> {
+	extends Pick<IComponentPermissionRule, "exclude" | "identifier"> {
 	action: ComponentAccessParametersActions;
 	identifier: string;
 }
 
-export interface IComponentPermissionRule<A = "edit" | "view"> {
+export interface IComponentPermissionRule<A = "edit" | "view">
+	extends IValidity {
 	actions: A[];
+	condition?: RuleCondition;
 	exclude?: boolean;
 	identifier: RegExp | string;
 }
@@ -0,0 +1,204 @@
+import type {
+	ICustomPermissionRule,
+	IPermissionType,
+	IPermissionTypeDefinition,
+} from "./custom-types";
+
+import {
+	Action,
+	checkRuleCondition,
+	Group,
+	type IRuleEvaluation,
+	Permission,
+	PermissionMessage,
+	registerPermissionFactory,
+	Role,
+	validateSchema,
+	validitySchema,
+} from "../../core";
+
+/**
+ * Class representing a permission of a type registered with `registerPermissionType`.
+ * @extends Permission
+ * @template T - The type of the permission.
+ * @template R - The rules associated with the permission.
+ * @template P - The parameters of the actions of the permission type.
+ */
+export class CustomAccessPermission<
+	T extends string = string,
+	R extends object = ICustomPermissionRule,
+	P extends object = object,
+> extends Permission<T, R[]> {
+	/**
+	 * @param {Group | Role} target - The target group or role for the permission.
+	 * @param {IPermissionTypeDefinition<T, R, P>} definition - The definition of the permission type.
+	 * @param {R[]} rules - The rules associated with the permission.
+	 */
+	constructor(
+		protected target: Group | Role,
+		protected definition: IPermissionTypeDefinition<T, R, P>,
+		rules: R[],
+	) {
+		super(target, definition.type, rules);
+	}
+
+	/**
+	 * Explain how each rule is evaluated against the parameters of the action.
+	 * A rule matches if `matchRule` returns true, it is in effect and its condition, if any, is met.
+	 * The first matching rule with the exclude flag denies the action and skips the remaining rules.
+	 * @param {Action<T, P>} action - The action to evaluate the rules against.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {IRuleEvaluation<R>[]} The evaluation of each rule.
+	 */
+	explainRules(action: Action<T, P>, now = new Date()): IRuleEvaluation<R>[] {
+		if (action.getType() !== this.type) {
+			return super.explainRules(action, now);
+		}
+
+		const parameters = action.getParameters();
+		let excludedBefore = false;
+
+		return this.getRuleEntries().map((entry) => {
+			if (excludedBefore) {
+				return { ...entry, excluded: false, matched: false, skipped: true };
+			}
+
+			const ruleMatched = this.definition.matchRule(entry.rule, parameters);
+			const validity = ruleMatched
+				? this.checkRuleValidity(entry, now)
+				: undefined;
+			const conditionMet = ruleMatched
+				? checkRuleCondition(entry.rule, action)
+				: undefined;
+			const matched =
+				ruleMatched &&
+				conditionMet !== false &&
+				(validity ?? "active") === "active";
+			excludedBefore =
+				matched && !!(entry.rule as ICustomPermissionRule).exclude;
+
+			return {
+				...entry,
+				...(typeof conditionMet === "boolean" && { conditionMet }),
+				excluded: excludedBefore,
+				matched,
+				skipped: false,
+				...(validity && { validity }),
+			};
+		});
+	}
+
+	/**
+	 * Check whether the permission applies to the action, i.e. whether any rule matches its parameters.
+	 * @param {Action<T, P>} action - The action to check.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {boolean} True if the permission applies.
+	 */
+	isApplicable(action: Action<T, P>, now = new Date()) {
+		return (
+			super.isApplicable(action, now) &&
+			this.explainRules(action, now).some(({ matched }) => matched)
+		);
+	}
+
+	/**
+	 * Validate the action against the permission rules.
+	 * @param {Action<T, P>} action - The action to validate.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {PermissionMessage | undefined} A message indicating the validation result or undefined if valid.
+	 */
+	validate(action: Action<T, P>, now = new Date()) {
+		if (action.getType() !== this.type) {
+			return new PermissionMessage({
+				status: "failed",
+				code: "TYPE_MISMATCH",
+				messageKey: "typeMismatch",
+				messageParameters: {
+					actionType: String(action.getType()),
+					type: String(this.type),
+				},
+				target: this.target,
+				action,
+			});
+		}
+
+		const evaluations = this.explainRules(action, now);
+
+		if (
+			evaluations.some(({ excluded }) => excluded) ||
+			!evaluations.some(({ matched }) => matched)
+		) {
+			return this.createDenialMessage(action, now, "accessDenied", {});
+		}
+	}
+}
+
+/**
+ * Register a permission type, so that its permissions can be created, checked, validated and (de)serialized
+ * like the built-in ones. Registering a type again replaces its previous definition.
+ * @param {IPermissionTypeDefinition<T, R, P>} definition - The definition of the permission type.
+ * @returns {IPermissionType<T, R, P>} The permission type, providing its factories.
+ *
+ * @example
+ * const featureType = registerPermissionType({
+ *   type: "feature",
+ *   matchRule: (rule: { flag: string; exclude?: boolean }, { flag }: { flag: string }) => rule.flag === flag,
+ *   ruleSchema: { flag: { kinds: ["string"] }, exclude: { kinds: ["boolean"], optional: true } },
+ *   parametersSchema: { flag: { kinds: ["string"] } },
+ * });
+ *
+ * featureType.createPermission(adminRole, [{ flag: "beta" }]);
+ * accessControl.can(featureType.createAction("ADMIN", { flag: "beta" })); // true
+ */
+export function registerPermissionType<
+	T extends string,
+	R extends object,
+	P extends object,
+>(definition: IPermissionTypeDefinition<T, R, P>): IPermissionType<T, R, P> {
+	const {
+		deserializeRule,
+		parametersSchema,
+		ruleSchema,
+		serializeRule,
+		type,
+		validateRule,
+	} = definition;
+	const validateParameters = (parameters: unknown) =>
+		parametersSchema ? validateSchema(parameters, parametersSchema) : [];
+
+	registerPermissionFactory(
+		type,
+		(target, rules) =>
+			new CustomAccessPermission(target, definition, rules as R[]),
+		{
+			deserializeRule,
+			ruleSchema: ruleSchema && {
+				condition: { kinds: ["condition"], optional: true },
+				...validitySchema,
+				...ruleSchema,
+			},
+			serializeRule: serializeRule && ((rule) => serializeRule(rule as R)),
+			validateRule,
+		},
+	);
+
+	return {
+		createAction: (roleCode, parameters, options) => {
+			const errors = validateParameters(parameters);
+
+			if (errors.length > 0) {
+				throw new Error(
+					`invalid parameters for ${type} action: ${errors
+						.map(({ message, path }) => `${path || "/"}: ${message}`)
+						.join(", ")}`,
+				);
+			}
+
+			return new Action(roleCode, type, parameters, options);
+		},
+		createPermission: (target, rules) =>
+			new CustomAccessPermission(target, definition, rules),
+		type,
+		validateParameters,
+	};
+}
@@ -0,0 +1,125 @@
+import type {
+	Action,
+	Group,
+	IActionOptions,
+	IValidity,
+	Role,
+	RuleCondition,
+} from "../../core";
+import type {
+	IPolicyValidationError,
+	RuleSchema,
+	SerializedValue,
+} from "../../types/policy-types";
+import type { CustomAccessPermission } from "./custom-permission";
+
+/**
+ * Interface for the rules of a custom permission type, which may have any other property.
+ */
+export interface ICustomPermissionRule extends IValidity {
+	/**
+	 * Condition on the context of the action restricting the actions matched by the rule.
+	 */
+	condition?: RuleCondition;
+
+	/**
+	 * Deny the actions matched by the rule, skipping the remaining rules.
+	 */
+	exclude?: boolean;
+}
+
+/**
+ * Interface for the definition of a custom permission type.
+ * @template T - The permission type.
+ * @template R - The rules of the permission type.
+ * @template P - The parameters of the actions of the permission type.
+ */
+export interface IPermissionTypeDefinition<
+	T extends string,
+	R extends object,
+	P extends object,
+> {
+	/**
+	 * Decode a serialized rule, defaults to `decodeValue`.
+	 */
+	deserializeRule?: (value: SerializedValue) => R;
+
+	/**
+	 * Check whether a rule matches the parameters of an action.
+	 */
+	matchRule: (rule: R, parameters: P) => boolean;
+
+	/**
+	 * The schema the parameters of the actions are validated against when created.
+	 */
+	parametersSchema?: RuleSchema;
+
+	/**
+	 * The schema the serialized rules are validated against when a policy is loaded.
+	 */
+	ruleSchema?: RuleSchema;
+
+	/**
+	 * Encode a rule into JSON, defaults to `encodeValue`.
+	 */
+	serializeRule?: (rule: R) => SerializedValue;
+	type: T;
+
+	/**
+	 * Validate a serialized rule beyond the rule schema when a policy is loaded, e.g. the relations
+	 * between its properties. The paths of the errors are relative to the rule.
+	 */
+	validateRule?: (rule: SerializedValue) => IPolicyValidationError[];
+}
+
+/**
+ * Interface for a registered permission type, providing its factories.
+ * @template T - The permission type.
+ * @template R - The rules of the permission type.
+ * @template P - The parameters of the actions of the permission type.
+ */
+export interface IPermissionType<
+	T extends string = string,
+	R extends object = ICustomPermissionRule,
+	P extends object = object,
+> {
+	/**
+	 * Create an action of the type, optionally with the context its rule conditions are evaluated against,
+	 * its tenant or its actor.
+	 * @throws {Error} If the parameters don't match the parameters schema.
+	 */
+	createAction(
+		roleCode: string,
+		parameters: P,
+		options?: IActionOptions,
+	): Action<T, P>;
+
+	/**
+	 * Create a permission of the type, assigned to its target.
+	 */
+	createPermission(
+		target: Group | Role,
+		rules: R[],
+	): CustomAccessPermission<T, R, P>;
+	type: T;
+
+	/**
+	 * Validate the parameters of an action against the parameters schema.
+	 */
+	validateParameters(parameters: unknown): IPolicyValidationError[];
+}
+
+/**
+ * Map of the permissions of registered permission types, keyed by type.
+ * @template H - The registered permission types.
+ *
+ * @example
+ * const featureType = registerPermissionType({ type: "feature", ... });
+ * type FeaturePermissions = PermissionMapOf<typeof featureType>;
+ * // { feature: CustomAccessPermission<"feature", IFeatureRule, IFeatureParameters> }
+ */
+export type PermissionMapOf<
+	H extends { createPermission(...args: never[]): unknown; type: string },
+> = {
+	[K in H as K["type"]]: ReturnType<K["createPermission"]>;
+};
@@ -1,9 +1,15 @@
-import { Action, Group, Role } from "../../core";
+import {
+	Action,
+	Group,
+	type IActionOptions,
+	registerPermissionFactory,
+	Role,
+} from "../../core";
 import type {
 	ListAccessActionType,
 	ListPermissionRule,
 } from "../list/list-types";
-import { ListAccessPermission } from "../list/list-permission";
+import { ListAccessPermission, listRuleSchema } from "../list/list-permission";
 import type {
 	DropdownAccessActionType,
 	IDropdownAccessParameters,
@@ -23,12 +29,14 @@ export class DropdownAccessAction<
 	/**
 	 * @param {string} roleCode - The code of the role associated with the action.
 	 * @param {P} parameters - The parameters for the dropdown access action.
+	 * @param {IActionOptions} [options] - The options of the action, such as its context.
 	 */
 	constructor(
 		protected roleCode: string,
 		protected parameters: P,
+		options?: IActionOptions,
 	) {
-		super(roleCode, "dropdown" as T, parameters);
+		super(roleCode, "dropdown" as T, parameters, options);
 	}
 }
 
@@ -74,3 +82,10 @@ export class DropdownAccessPermission<
 		super(target, "dropdown" as T, rules);
 	}
 }
+
+registerPermissionFactory(
+	"dropdown",
+	(target, rules) =>
+		new DropdownAccessPermission(target, rules as IDropdownPermissionRule[]),
+	{ ruleSchema: listRuleSchema },
+);
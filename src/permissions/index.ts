@@ -8,3 +8,5 @@ export * from "./list/list-permission";
 export * from "./list/list-types";
 export * from "./dropdown/dropdown-permission";
 export * from "./dropdown/dropdown-type";
+export * from "./custom/custom-permission";
+export * from "./custom/custom-types";
@@ -1,11 +1,23 @@
-import { Action, Group, Permission, PermissionMessage, Role } from "../../core";
+import {
+	Action,
+	checkRuleCondition,
+	Group,
+	type IActionOptions,
+	type IRuleEvaluation,
+	Permission,
+	PermissionMessage,
+	registerPermissionFactory,
+	Role,
+	type RuleSchema,
+	validitySchema,
+} from "../../core";
 import type {
 	ListAccessActionType,
 	ListAccessParameters,
 	ListPermissionRule,
 } from "./list-types";
 
-import { findSharedMembers, mergeArrays } from "../../utilities";
+import { findSharedMembers, matchPattern, mergeArrays } from "../../utilities";
 
 /**
  * Class representing an action for list access.
@@ -20,12 +32,14 @@ export class ListAccessAction<
 	/**
 	 * @param {string} roleCode - The code of the role associated with the action.
 	 * @param {P} parameters - The parameters for the list access action.
+	 * @param {IActionOptions} [options] - The options of the action, such as its context.
 	 */
 	constructor(
 		protected roleCode: string,
 		protected parameters: P,
+		options?: IActionOptions,
 	) {
-		super(roleCode, "list" as T, parameters);
+		super(roleCode, "list" as T, parameters, options);
 	}
 }
 
@@ -72,68 +86,108 @@ export class ListAccessPermission<
 	) {
 		super(target, type, rules);
 	}
-	validate(action: A) {
+
+	/**
+	 * Explain how each rule is evaluated against the identifier of the action.
+	 * Every rule matching the identifier and in effect contributes to the accessible list, the ones with
+	 * the exclude flag remove their items from it.
+	 * @param {A} action - The action to evaluate the rules against.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {IRuleEvaluation<ListPermissionRule<ListAccessActionType>>[]} The evaluation of each rule.
+	 */
+	explainRules(
+		action: A,
+		now = new Date(),
+	): IRuleEvaluation<ListPermissionRule<ListAccessActionType>>[] {
+		const accessIdentifier = (
+			action.getParameters() as ListAccessParameters<string>
+		).identifier;
+
+		return this.getRuleEntries().map((entry) => {
+			const match = matchPattern(entry.rule.identifier, accessIdentifier);
+			const validity = match && this.checkRuleValidity(entry, now);
+			const conditionMet = match && checkRuleCondition(entry.rule, action);
+			const matched =
+				!!match &&
+				conditionMet !== false &&
+				(validity ?? "active") === "active";
+
+			return {
+				...entry,
+				...match,
+				...(typeof conditionMet === "boolean" && { conditionMet }),
+				excluded: matched && !!entry.rule.exclude,
+				matched,
+				skipped: false,
+				...(validity && { validity }),
+			};
+		});
+	}
+
+	/**
+	 * Check whether the permission applies to the action, i.e. whether any rule matches its identifier.
+	 * @param {A} action - The action to check.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {boolean} True if the permission applies.
+	 */
+	isApplicable(action: A, now = new Date()) {
+		return (
+			super.isApplicable(action, now) &&
+			this.explainRules(action, now).some(({ matched }) => matched)
+		);
+	}
+
+	validate(action: A, now = new Date()) {
 		if (action.getType() !== this.type) {
 			return new PermissionMessage({
 				status: "failed",
-				message: "action type doesn't match the permission type",
+				code: "TYPE_MISMATCH",
+				messageKey: "typeMismatch",
+				messageParameters: {
+					actionType: String(action.getType()),
+					type: String(this.type),
+				},
 				target: this.target,
 				action,
 			});
 		}
 
-		const matchedRules = this.getRulesByAction(action);
+		const matchedRules = this.getRulesByAction(action, now);
 
 		if (matchedRules.length === 0) {
-			return new PermissionMessage({
-				status: "failed",
-				message: `No access permission for menu '${(action.getParameters() as ListAccessParameters<string>).identifier}'`,
-				target: this.target,
+			const { identifier } =
+				action.getParameters() as ListAccessParameters<string>;
+
+			return this.createDenialMessage(
 				action,
-			});
+				now,
+				"listDenied",
+				{ identifier },
+				identifier,
+			);
 		}
 	}
 
-	getRulesByAction(action: A) {
-		const accessIdentifier = (
-			action.getParameters() as ListAccessParameters<string>
-		).identifier;
-		let validRules: ListPermissionRule<ListAccessActionType>[] = [];
-
-		for (const rule of this.getRules()) {
-			let identifierMatchedRule:
-				| ListPermissionRule<ListAccessActionType>
-				| undefined = undefined;
-			if (
-				rule.identifier instanceof RegExp &&
-				rule.identifier.test(accessIdentifier)
-			) {
-				identifierMatchedRule = rule;
-			} else if (rule.identifier === accessIdentifier) {
-				identifierMatchedRule = rule;
-			}
-
-			if (identifierMatchedRule) {
-				validRules.push(identifierMatchedRule);
-			}
-		}
-
-		return validRules;
+	getRulesByAction(action: A, now = new Date()) {
+		return this.explainRules(action, now)
+			.filter(({ matched }) => matched)
+			.map(({ rule }) => rule);
 	}
 
 	/**
 	 * Get the accessible list based on the action.
 	 * @param {A} action - The action to validate against the rules.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
 	 * @returns {string[]} An array of accessible list items.
 	 */
 
-	getAccessibleList(action: A) {
+	getAccessibleList(action: A, now = new Date()) {
 		const actionParameters =
 			action.getParameters() as ListAccessParameters<string>;
 		const requestedList = actionParameters[this.getType()];
 
 		const rules: ListPermissionRule<ListAccessActionType>[] =
-			this.getRulesByAction(action);
+			this.getRulesByAction(action, now);
 		let roleAccessibleList: string[] = [];
 
 		for (const rule of rules) {
@@ -160,3 +214,25 @@ export class ListAccessPermission<
 		return roleAccessibleList;
 	}
 }
+
+/**
+ * Schema of the rules of list permissions, shared by the menu and dropdown permissions.
+ */
+export const listRuleSchema: RuleSchema = {
+	condition: { kinds: ["condition"], optional: true },
+	exclude: { kinds: ["boolean"], optional: true },
+	identifier: { kinds: ["regex", "string"] },
+	list: { kinds: ["regex", "string-array"] },
+	...validitySchema,
+};
+
+registerPermissionFactory(
+	"list",
+	(target, rules) =>
+		new ListAccessPermission(
+			target,
+			"list",
+			rules as ListPermissionRule<ListAccessActionType>[],
+		),
+	{ ruleSchema: listRuleSchema },
+);
@@ -1,13 +1,14 @@
+import type { IValidity, RuleCondition } from "../../core";
+
 export type ListAccessActionType = "list";
 
 export type ListAccessParameters<L extends string> = Record<L, string[]> & {
 	identifier: string;
 };
 
-export type ListPermissionRule<L extends string> = Record<
-	L,
-	RegExp | string[]
-> & {
-	exclude?: boolean;
-	identifier: RegExp | string;
-};
+export type ListPermissionRule<L extends string> = IValidity &
+	Record<L, RegExp | string[]> & {
+		condition?: RuleCondition;
+		exclude?: boolean;
+		identifier: RegExp | string;
+	};
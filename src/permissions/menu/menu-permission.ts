@@ -4,8 +4,14 @@ import type {
 	MenuAccessActionType,
 } from "./menu-types";
 
-import { Action, Group, Role } from "../../core";
-import { ListAccessPermission } from "../list/list-permission";
+import {
+	Action,
+	Group,
+	type IActionOptions,
+	registerPermissionFactory,
+	Role,
+} from "../../core";
+import { ListAccessPermission, listRuleSchema } from "../list/list-permission";
 import type {
 	ListAccessActionType,
 	ListPermissionRule,
@@ -24,12 +30,14 @@ export class MenuAccessAction<
 	/**
 	 * @param {string} roleCode - The code of the role associated with the action.
 	 * @param {P} parameters - The parameters for the menu access action.
+	 * @param {IActionOptions} [options] - The options of the action, such as its context.
 	 */
 	constructor(
 		protected roleCode: string,
 		protected parameters: P,
+		options?: IActionOptions,
 	) {
-		super(roleCode, "menu" as T, parameters);
+		super(roleCode, "menu" as T, parameters, options);
 	}
 }
 
@@ -75,3 +83,10 @@ export class MenuAccessPermission<
 		super(target, "menu" as T, rules);
 	}
 }
+
+registerPermissionFactory(
+	"menu",
+	(target, rules) =>
+		new MenuAccessPermission(target, rules as IMenuPermissionRule[]),
+	{ ruleSchema: listRuleSchema },
+);
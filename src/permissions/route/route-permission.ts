@@ -1,4 +1,16 @@
-import { Role, Permission, Action, Group, PermissionMessage } from "../../core";
+import {
+	Role,
+	Permission,
+	Action,
+	checkRuleCondition,
+	Group,
+	type IActionOptions,
+	PermissionMessage,
+	type IRuleEvaluation,
+	registerPermissionFactory,
+	validitySchema,
+} from "../../core";
+import { matchPattern } from "../../utilities";
 import type {
 	IRouteAccessParameters,
 	IRoutePermissionRule,
@@ -51,62 +63,116 @@ export class RouteAccessPermission extends Permission<
 		return this.getRules().find((rule) => rule.isDefault);
 	}
 
+	/**
+	 * Explain how each rule is evaluated against the route of the action.
+	 * A rule matches if its route matches, it is in effect and its condition, if any, is met.
+	 * The first matching rule with the exclude flag denies the route and skips the remaining rules.
+	 * @param {RouteAccessAction} action - The action to evaluate the rules against.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {IRuleEvaluation<IRoutePermissionRule>[]} The evaluation of each rule.
+	 */
+	explainRules(
+		action: RouteAccessAction,
+		now = new Date(),
+	): IRuleEvaluation<IRoutePermissionRule>[] {
+		if (action.getType() !== this.type) {
+			return super.explainRules(action, now);
+		}
+
+		const path = action.getParameters().route;
+		let excludedBefore = false;
+
+		return this.getRuleEntries().map((entry) => {
+			if (excludedBefore) {
+				return { ...entry, excluded: false, matched: false, skipped: true };
+			}
+
+			const match = matchPattern(entry.rule.route, path);
+			const validity = match && this.checkRuleValidity(entry, now);
+			const conditionMet = match && checkRuleCondition(entry.rule, action);
+			const matched =
+				!!match &&
+				conditionMet !== false &&
+				(validity ?? "active") === "active";
+			excludedBefore = matched && !!entry.rule.exclude;
+
+			return {
+				...entry,
+				...match,
+				...(typeof conditionMet === "boolean" && { conditionMet }),
+				excluded: excludedBefore,
+				matched,
+				skipped: false,
+				...(validity && { validity }),
+			};
+		});
+	}
+
 	/**
 	 * Get the rules that match the action based on the route.
 	 * @param {RouteAccessAction} action - The action to check against the rules.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
 	 * @returns {IRoutePermissionRule[]} An array of valid rules for the action.
 	 */
-	getRulesByAction(action: RouteAccessAction) {
-		const path = action.getParameters().route;
-		let validRules: IRoutePermissionRule[] = [];
-
-		for (const rule of this.getRules()) {
-			if (rule.route instanceof RegExp && rule.route.test(path)) {
-				if (rule.exclude) {
-					validRules = [];
-					break; // if the exclude flag exists then reset the validRules to an empty array
-				}
-				validRules.push(rule);
-			} else if (rule.route === path) {
-				if (rule.exclude) {
-					validRules = [];
-					break;
-				}
-				validRules.push(rule);
-			}
+	getRulesByAction(action: RouteAccessAction, now = new Date()) {
+		const evaluations = this.explainRules(action, now);
+
+		// if the exclude flag exists then no rule is valid
+		if (evaluations.some(({ excluded }) => excluded)) {
+			return [];
 		}
 
-		return validRules;
+		return evaluations.filter(({ matched }) => matched).map(({ rule }) => rule);
+	}
+
+	/**
+	 * Check whether the permission applies to the action, i.e. whether any rule matches its route.
+	 * @param {RouteAccessAction} action - The action to check.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
+	 * @returns {boolean} True if the permission applies.
+	 */
+	isApplicable(action: RouteAccessAction, now = new Date()) {
+		return (
+			super.isApplicable(action, now) &&
+			this.explainRules(action, now).some(({ matched }) => matched)
+		);
 	}
 
 	/**
 	 * Validate the action against the permission rules.
 	 * @param {RouteAccessAction} action - The action to validate.
+	 * @param {Date} [now] - The time of the evaluation, defaults to the system time.
 	 * @returns {PermissionMessage | undefined} A message indicating the validation result or undefined if valid.
 	 */
-	validate(action: RouteAccessAction) {
+	validate(action: RouteAccessAction, now = new Date()) {
 		if (action.getType() !== this.type) {
 			return new PermissionMessage({
 				status: "failed",
-				message: "action type doesn't match the permission type",
+				code: "TYPE_MISMATCH",
+				messageKey: "typeMismatch",
+				messageParameters: {
+					actionType: String(action.getType()),
+					type: String(this.type),
+				},
 				target: this.target,
 				action,
 			});
 		}
 
-		const matchedRules = this.getRulesByAction(action);
+		const matchedRules = this.getRulesByAction(action, now);
 
 		this.middlewares.forEach((middleware) => {
 			middleware(this, action);
 		});
 
 		if (matchedRules.length === 0) {
-			return new PermissionMessage({
-				status: "failed",
-				message: "route access is not allowed",
-				target: this.target,
+			return this.createDenialMessage(
 				action,
-			});
+				now,
+				"routeDenied",
+				{ route: action.getParameters().route },
+				action.getParameters().route,
+			);
 		}
 	}
 }
@@ -124,11 +190,28 @@ export class RouteAccessAction extends Action<
 	/**
 	 * @param {string} roleCode - The code of the role associated with the action.
 	 * @param {IRouteAccessParameters} parameters - The parameters for the route access action.
+	 * @param {IActionOptions} [options] - The options of the action, such as its context.
 	 */
 	constructor(
 		protected roleCode: string,
 		protected parameters: IRouteAccessParameters,
+		options?: IActionOptions,
 	) {
-		super(roleCode, "navigation", parameters);
+		super(roleCode, "navigation", parameters, options);
 	}
 }
+
+registerPermissionFactory(
+	"navigation",
+	(target, rules) =>
+		new RouteAccessPermission(target, rules as IRoutePermissionRule[]),
+	{
+		ruleSchema: {
+			condition: { kinds: ["condition"], optional: true },
+			exclude: { kinds: ["boolean"], optional: true },
+			isDefault: { kinds: ["boolean"], optional: true },
+			route: { kinds: ["regex", "string"] },
+			...validitySchema,
+		},
+	},
+);
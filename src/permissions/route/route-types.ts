@@ -1,11 +1,14 @@
+import type { IValidity, RuleCondition } from "../../core";
+
 export type RouteAccessActionType = "navigation";
 
 export interface IRouteAccessParameters {
-  route: string;
+	route: string;
 }
 
-export type IRoutePermissionRule = {
-  route: string | RegExp;
-  isDefault?: boolean;
-  exclude?: boolean;
+export type IRoutePermissionRule = IValidity & {
+	route: string | RegExp;
+	condition?: RuleCondition;
+	isDefault?: boolean;
+	exclude?: boolean;
 };
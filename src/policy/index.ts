@@ -0,0 +1,40 @@
+export {
+	diffPolicies,
+	type ICombiningAlgorithmChange,
+	type IDecisionChange,
+	type IInheritanceChange,
+	type IPolicyDiff,
+	type IPolicyDiffOptions,
+	type IRuleChange,
+} from "./policy-diff";
+export {
+	getRoleCapabilities,
+	type ICapabilityCatalogs,
+	type ICapabilityOptions,
+	type IRoleCapabilities,
+} from "./policy-capabilities";
+export {
+	type ILintCheck,
+	type ILintFinding,
+	type ILintIssue,
+	type ILintOptions,
+	lintChecks,
+	lintPolicy,
+	type LintRule,
+	type LintSeverity,
+} from "./policy-lint";
+export {
+	formatPolicyTestReport,
+	type IPolicyExpectation,
+	type IPolicyTestReport,
+	type IPolicyTestResult,
+	parsePolicyTestTable,
+	PolicyTestTableError,
+	runPolicyTests,
+} from "./policy-test-runner";
+export {
+	parsePolicy,
+	parsePolicyDocument,
+	PolicySyntaxError,
+	printPolicy,
+} from "./policy-dsl";
@@ -0,0 +1,229 @@
+import { AccessControl, Action, type IActionContext } from "../core";
+import { ListAccessPermission } from "../permissions/list/list-permission";
+import { matchPattern } from "../utilities";
+
+/**
+ * Interface for the catalogs of known routes, components and list items, probed alongside the ones named by the rules.
+ */
+export interface ICapabilityCatalogs {
+	/**
+	 * The identifiers of the components.
+	 */
+	components?: string[];
+
+	/**
+	 * The items of every dropdown, by identifier.
+	 */
+	dropdowns?: Record<string, string[]>;
+
+	/**
+	 * The items of every menu, by identifier.
+	 */
+	menus?: Record<string, string[]>;
+	routes?: string[];
+}
+
+/**
+ * Interface for the options of a capability enumeration.
+ */
+export interface ICapabilityOptions {
+	catalogs?: ICapabilityCatalogs;
+
+	/**
+	 * The context the conditions of the rules are evaluated against.
+	 */
+	context?: IActionContext;
+}
+
+/**
+ * Interface for the effective capabilities of a role, by permission type.
+ */
+export interface IRoleCapabilities {
+	/**
+	 * The permitted actions of every component, empty if none is permitted.
+	 */
+	components: Record<string, string[]>;
+
+	/**
+	 * The accessible items of every dropdown, empty if the dropdown is denied.
+	 */
+	dropdowns: Record<string, string[]>;
+
+	/**
+	 * The accessible items of every menu, empty if the menu is denied.
+	 */
+	menus: Record<string, string[]>;
+	roleCode: string;
+	routes: { allowed: string[]; denied: string[] };
+}
+
+/**
+ * Interface for an action probing a capability.
+ */
+interface ICapabilityProbe {
+	action: Action;
+	identifier: string;
+	items?: string[];
+	kind: "components" | "dropdowns" | "menus" | "routes";
+}
+
+/**
+ * Enumerate everything a role can access. The routes, components and list items named by string patterns
+ * in the rules of the role are probed, along with the ones of the catalogs, and decided by the access control,
+ * so that inheritance, `exclude` rules and combining algorithms are taken into account. Regular expressions
+ * can't be enumerated, the catalogs list the values they should be probed with.
+ * @param {AccessControl} accessControl - The access control.
+ * @param {string} roleCode - The code of the role.
+ * @param {ICapabilityOptions} [options] - The catalogs and context to probe with.
+ * @returns {IRoleCapabilities} The capabilities of the role.
+ * @throws {Error} If the role doesn't exist.
+ *
+ * @example
+ * const { routes, components } = getRoleCapabilities(accessControl, "EDITOR", {
+ *   catalogs: { routes: ["/home", "/admin"] },
+ * });
+ */
+export function getRoleCapabilities(
+	accessControl: AccessControl,
+	roleCode: string,
+	{ catalogs = {}, context }: ICapabilityOptions = {},
+): IRoleCapabilities {
+	if (!hasRole(accessControl, roleCode)) {
+		throw new Error(`role ${roleCode} doesn't exist`);
+	}
+
+	const permissions = accessControl.getRolePermissions(roleCode);
+	const getRules = (type: string) =>
+		permissions
+			.filter((permission) => permission.getType() === type)
+			.flatMap((permission) => permission.rules as Record<string, unknown>[]);
+	const createAction = (type: string, parameters: object) =>
+		new Action(roleCode, type, parameters, { context });
+	const componentRules = getRules("component");
+	const componentActions = unique(
+		componentRules.flatMap(({ actions }) =>
+			Array.isArray(actions) ? actions : [],
+		),
+	);
+	const probes: ICapabilityProbe[] = [
+		...unique([
+			...(catalogs.routes ?? []),
+			...getStrings(getRules("navigation"), "route"),
+		]).map((route) => ({
+			action: createAction("navigation", { route }),
+			identifier: route,
+			kind: "routes" as const,
+		})),
+		...unique([
+			...(catalogs.components ?? []),
+			...getStrings(componentRules, "identifier"),
+		]).flatMap((identifier) =>
+			componentActions.map((action) => ({
+				action: createAction("component", { action, identifier }),
+				identifier,
+				kind: "components" as const,
+			})),
+		),
+		...(["dropdown", "menu"] as const).flatMap((type) => {
+			const kind = `${type}s` as const;
+			const catalog = catalogs[kind] ?? {};
+			const rules = getRules(type);
+
+			return unique([
+				...Object.keys(catalog),
+				...getStrings(rules, "identifier"),
+			]).map((identifier) => {
+				const items = unique([
+					...(catalog[identifier] ?? []),
+					...rules
+						.filter(
+							(rule) =>
+								matchPattern(rule.identifier as RegExp | string, identifier) &&
+								Array.isArray(rule.list),
+						)
+						.flatMap((rule) => rule.list as string[]),
+				]);
+
+				return {
+					action: createAction(type, { identifier, [type]: items }),
+					identifier,
+					items,
+					kind,
+				};
+			});
+		}),
+	];
+	const decisions = accessControl.probe(probes.map(({ action }) => action));
+	const now = accessControl.getTime();
+	const capabilities: IRoleCapabilities = {
+		components: {},
+		dropdowns: {},
+		menus: {},
+		roleCode,
+		routes: { allowed: [], denied: [] },
+	};
+
+	probes.forEach(({ action, identifier, items, kind }, index) => {
+		const { permission, status } = decisions[index];
+		const allowed = status === "success";
+
+		if (kind === "routes") {
+			capabilities.routes[allowed ? "allowed" : "denied"].push(identifier);
+		} else if (kind === "components") {
+			const actions = (capabilities.components[identifier] ??= []);
+
+			if (allowed) {
+				actions.push((action.getParameters() as { action: string }).action);
+			}
+		} else {
+			const accessible =
+				allowed && permission instanceof ListAccessPermission
+					? permission.getAccessibleList(action, now)
+					: [];
+
+			capabilities[kind][identifier] = items!.filter((item) =>
+				accessible.includes(item),
+			);
+		}
+	});
+
+	return capabilities;
+}
+
+/**
+ * Get the string values of a property of rules, leaving out the regular expressions.
+ * @param {Record<string, unknown>[]} rules - The rules.
+ * @param {string} property - The property.
+ * @returns {string[]} The string values.
+ */
+function getStrings(rules: Record<string, unknown>[], property: string) {
+	return rules.flatMap((rule) => {
+		const value = rule[property];
+
+		return typeof value === "string" ? [value] : [];
+	});
+}
+
+/**
+ * Check whether an access control or one of its base policies defines a role.
+ * @param {AccessControl} accessControl - The access control.
+ * @param {string} roleCode - The code of the role.
+ * @returns {boolean} True if the role is defined.
+ */
+function hasRole(accessControl: AccessControl, roleCode: string): boolean {
+	const base = accessControl.getBase();
+
+	return (
+		!!accessControl.getRoleByCode(roleCode) ||
+		(!!base && hasRole(base, roleCode))
+	);
+}
+
+/**
+ * Remove the duplicates of a list, keeping the first occurrences.
+ * @param {T[]} values - The list.
+ * @returns {T[]} The list without duplicates.
+ */
+function unique<T>(values: T[]): T[] {
+	return [...new Set(values)];
+}
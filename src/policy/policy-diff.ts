@@ -0,0 +1,398 @@
+import {
+	AccessControl,
+	Action,
+	type CombiningAlgorithm,
+	type IPermissionDecision,
+} from "../core";
+import type {
+	IGroupDocument,
+	IPolicyDocument,
+	IRoleDocument,
+	SerializedValue,
+} from "../types/policy-types";
+
+/**
+ * Interface for a change of the groups a role or group inherits from.
+ */
+export interface IInheritanceChange {
+	code: string;
+
+	/**
+	 * The groups inherited from before the change, the parent of a group or the groups of a role.
+	 */
+	from: string[];
+	kind: "group" | "role";
+	to: string[];
+}
+
+/**
+ * Interface for a change of a combining algorithm, `permissionType` is undefined for the default one.
+ */
+export interface ICombiningAlgorithmChange {
+	from?: CombiningAlgorithm;
+	permissionType?: string;
+	to?: CombiningAlgorithm;
+}
+
+/**
+ * Interface for a rule added to, removed from, or modified on a role or group.
+ */
+export interface IRuleChange {
+	change: "added" | "modified" | "removed";
+
+	/**
+	 * The rule before a modification.
+	 */
+	previous?: SerializedValue;
+
+	/**
+	 * The serialized rule, after the change for a modification.
+	 */
+	rule: SerializedValue;
+	target: string;
+	targetKind: "group" | "role";
+	type: string;
+}
+
+/**
+ * Interface for an action whose decision flips between two policies.
+ */
+export interface IDecisionChange {
+	action: Action;
+	after: IPermissionDecision;
+	before: IPermissionDecision;
+}
+
+/**
+ * Interface for the differences between two policies.
+ */
+export interface IPolicyDiff {
+	combiningAlgorithms: ICombiningAlgorithmChange[];
+
+	/**
+	 * Actions allowed by one policy and denied by the other.
+	 */
+	decisions: IDecisionChange[];
+	groups: { added: string[]; removed: string[] };
+	inheritance: IInheritanceChange[];
+	roles: { added: string[]; removed: string[] };
+	rules: IRuleChange[];
+}
+
+/**
+ * Interface for the options of a policy diff.
+ */
+export interface IPolicyDiffOptions {
+	/**
+	 * The actions whose decisions are compared. By default, actions are sampled from
+	 * the string patterns of the rules of both policies, for every role.
+	 */
+	actions?: Action[];
+}
+
+/**
+ * Compare two policies, structurally and by the decisions they make.
+ * @param {AccessControl | IPolicyDocument} before - The current policy.
+ * @param {AccessControl | IPolicyDocument} after - The changed policy.
+ * @param {IPolicyDiffOptions} [options] - The options of the diff.
+ * @returns {IPolicyDiff} The differences between the policies.
+ */
+export function diffPolicies(
+	before: AccessControl | IPolicyDocument,
+	after: AccessControl | IPolicyDocument,
+	options: IPolicyDiffOptions = {},
+): IPolicyDiff {
+	const [beforeAccessControl, afterAccessControl] = [before, after].map(
+		(policy) =>
+			policy instanceof AccessControl ? policy : AccessControl.fromJSON(policy),
+	);
+	const [beforeDocument, afterDocument] = [
+		beforeAccessControl,
+		afterAccessControl,
+	].map((accessControl) => accessControl.toJSON());
+	const actions =
+		options.actions ??
+		[beforeDocument, afterDocument].flatMap((document) =>
+			sampleActions(document, [beforeDocument, afterDocument]),
+		);
+	const [beforeDecisions, afterDecisions] = [
+		beforeAccessControl,
+		afterAccessControl,
+	].map((accessControl) => accessControl.probe(actions));
+	const decisions = new Map<string, IDecisionChange>();
+
+	actions.forEach((action, index) => {
+		const key = JSON.stringify([
+			action.getRoleCode(),
+			action.getType(),
+			action.getParameters(),
+		]);
+		const beforeDecision = beforeDecisions[index];
+		const afterDecision = afterDecisions[index];
+
+		if (beforeDecision.status !== afterDecision.status && !decisions.has(key)) {
+			decisions.set(key, {
+				action,
+				after: afterDecision,
+				before: beforeDecision,
+			});
+		}
+	});
+
+	return {
+		combiningAlgorithms: diffCombiningAlgorithms(beforeDocument, afterDocument),
+		decisions: [...decisions.values()],
+		groups: diffCodes(beforeDocument.groups, afterDocument.groups),
+		inheritance: [
+			...diffInheritance(
+				"group",
+				beforeDocument.groups,
+				afterDocument.groups,
+				({ inheritFrom }) => (inheritFrom ? [inheritFrom] : []),
+			),
+			...diffInheritance(
+				"role",
+				beforeDocument.roles,
+				afterDocument.roles,
+				({ groups }) => groups,
+			),
+		],
+		roles: diffCodes(beforeDocument.roles, afterDocument.roles),
+		rules: [
+			...diffRules("group", beforeDocument.groups, afterDocument.groups),
+			...diffRules("role", beforeDocument.roles, afterDocument.roles),
+		],
+	};
+}
+
+/**
+ * Find the codes added and removed between two lists of roles or groups.
+ * @param {Array<{ code: string }>} before - The roles or groups before the change.
+ * @param {Array<{ code: string }>} after - The roles or groups after the change.
+ * @returns {{ added: string[], removed: string[] }} The added and removed codes.
+ */
+function diffCodes(
+	before: { code: string }[],
+	after: { code: string }[],
+): { added: string[]; removed: string[] } {
+	const beforeCodes = before.map(({ code }) => code);
+	const afterCodes = after.map(({ code }) => code);
+
+	return {
+		added: afterCodes.filter((code) => !beforeCodes.includes(code)),
+		removed: beforeCodes.filter((code) => !afterCodes.includes(code)),
+	};
+}
+
+/**
+ * Find the combining algorithms changed between two policies.
+ * @param {IPolicyDocument} before - The policy before the change.
+ * @param {IPolicyDocument} after - The policy after the change.
+ * @returns {ICombiningAlgorithmChange[]} The changes.
+ */
+function diffCombiningAlgorithms(
+	before: IPolicyDocument,
+	after: IPolicyDocument,
+): ICombiningAlgorithmChange[] {
+	const changes: ICombiningAlgorithmChange[] = [];
+	const permissionTypes = new Set([
+		...Object.keys(before.combiningAlgorithms ?? {}),
+		...Object.keys(after.combiningAlgorithms ?? {}),
+	]);
+
+	if (before.combiningAlgorithm !== after.combiningAlgorithm) {
+		changes.push({
+			from: before.combiningAlgorithm,
+			to: after.combiningAlgorithm,
+		});
+	}
+
+	permissionTypes.forEach((permissionType) => {
+		const from = before.combiningAlgorithms?.[permissionType];
+		const to = after.combiningAlgorithms?.[permissionType];
+
+		if (from !== to) {
+			changes.push({ from, permissionType, to });
+		}
+	});
+
+	return changes;
+}
+
+/**
+ * Find the roles or groups present in both policies whose inherited groups changed.
+ * @param {string} kind - Whether the entries are roles or groups.
+ * @param {T[]} before - The entries before the change.
+ * @param {T[]} after - The entries after the change.
+ * @param {function(T): string[]} getInheritance - The function returning the groups an entry inherits from.
+ * @returns {IInheritanceChange[]} The changes.
+ */
+function diffInheritance<T extends IGroupDocument | IRoleDocument>(
+	kind: "group" | "role",
+	before: T[],
+	after: T[],
+	getInheritance: (entry: T) => string[],
+): IInheritanceChange[] {
+	return after.flatMap((entry) => {
+		const previous = before.find(({ code }) => code === entry.code);
+
+		if (!previous) {
+			return [];
+		}
+
+		const from = getInheritance(previous);
+		const to = getInheritance(entry);
+
+		return JSON.stringify(from) === JSON.stringify(to)
+			? []
+			: [{ code: entry.code, from, kind, to }];
+	});
+}
+
+/**
+ * Find the rules added, removed or modified on every role or group.
+ * A removed and an added rule sharing the same identifier or route are reported as a modification.
+ * @param {string} kind - Whether the entries are roles or groups.
+ * @param {Array<IGroupDocument | IRoleDocument>} before - The entries before the change.
+ * @param {Array<IGroupDocument | IRoleDocument>} after - The entries after the change.
+ * @returns {IRuleChange[]} The changes.
+ */
+function diffRules(
+	kind: "group" | "role",
+	before: (IGroupDocument | IRoleDocument)[],
+	after: (IGroupDocument | IRoleDocument)[],
+): IRuleChange[] {
+	const codes = [...new Set([...before, ...after].map(({ code }) => code))];
+
+	return codes.flatMap((code) => {
+		const beforeRules = getRulesByType(
+			before.find((entry) => entry.code === code),
+		);
+		const afterRules = getRulesByType(
+			after.find((entry) => entry.code === code),
+		);
+		const types = [...new Set([...beforeRules.keys(), ...afterRules.keys()])];
+
+		return types.flatMap((type) => {
+			const removed = [...(beforeRules.get(type) ?? [])];
+			const added: string[] = [];
+
+			(afterRules.get(type) ?? []).forEach((rule) => {
+				const index = removed.indexOf(rule);
+
+				if (index === -1) {
+					added.push(rule);
+				} else {
+					removed.splice(index, 1);
+				}
+			});
+
+			const changes: IRuleChange[] = [];
+
+			added.forEach((rule) => {
+				const index = removed.findIndex(
+					(previous) =>
+						getRuleKey(previous) !== undefined &&
+						getRuleKey(previous) === getRuleKey(rule),
+				);
+				const previous = index === -1 ? [] : removed.splice(index, 1);
+
+				changes.push({
+					change: previous.length > 0 ? "modified" : "added",
+					...(previous.length > 0 && { previous: JSON.parse(previous[0]) }),
+					rule: JSON.parse(rule),
+					target: code,
+					targetKind: kind,
+					type,
+				});
+			});
+
+			removed.forEach((rule) => {
+				changes.push({
+					change: "removed",
+					rule: JSON.parse(rule),
+					target: code,
+					targetKind: kind,
+					type,
+				});
+			});
+
+			return changes;
+		});
+	});
+}
+
+/**
+ * Get the key identifying a serialized rule across changes, its identifier or route.
+ * @param {string} rule - The rule as JSON.
+ * @returns {string | undefined} The key, or undefined if the rule has neither.
+ */
+function getRuleKey(rule: string): string | undefined {
+	const { identifier, route } = JSON.parse(rule);
+	const key = identifier ?? route;
+
+	return key === undefined ? undefined : JSON.stringify(key);
+}
+
+/**
+ * Get the rules of a role or group as JSON, by permission type.
+ * @param {IGroupDocument | IRoleDocument} [entry] - The role or group.
+ * @returns {Map<string, string[]>} The rules by permission type.
+ */
+function getRulesByType(
+	entry?: IGroupDocument | IRoleDocument,
+): Map<string, string[]> {
+	const rules = new Map<string, string[]>();
+
+	entry?.permissions.forEach(({ rules: permissionRules, type }) => {
+		rules.set(type, [
+			...(rules.get(type) ?? []),
+			...permissionRules.map((rule) => JSON.stringify(rule)),
+		]);
+	});
+
+	return rules;
+}
+
+/**
+ * Sample actions from the string patterns of the rules of a policy, for the roles of every policy.
+ * Rules matching by regular expression can't be enumerated and are skipped.
+ * @param {IPolicyDocument} document - The policy the rules are sampled from.
+ * @param {IPolicyDocument[]} policies - The policies whose roles perform the actions.
+ * @returns {Action[]} The sampled actions.
+ */
+function sampleActions(
+	document: IPolicyDocument,
+	policies: IPolicyDocument[],
+): Action[] {
+	const roleCodes = [
+		...new Set(policies.flatMap(({ roles }) => roles.map(({ code }) => code))),
+	];
+	const permissions = [...document.groups, ...document.roles].flatMap(
+		({ permissions }) => permissions,
+	);
+
+	return permissions.flatMap(({ rules, type }) =>
+		rules.flatMap((rule) => {
+			const { actions, identifier, list, route } = rule as Record<
+				string,
+				SerializedValue
+			>;
+			const parameters: object[] = [];
+
+			if (typeof route === "string") {
+				parameters.push({ route });
+			} else if (typeof identifier === "string" && Array.isArray(actions)) {
+				actions.forEach((action) => {
+					parameters.push({ action, identifier });
+				});
+			} else if (typeof identifier === "string" && Array.isArray(list)) {
+				parameters.push({ identifier, [type]: list });
+			}
+
+			return roleCodes.flatMap((roleCode) =>
+				parameters.map((parameter) => new Action(roleCode, type, parameter)),
+			);
+		}),
+	);
+}
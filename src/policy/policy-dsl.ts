@@ -0,0 +1,705 @@
+import { AccessControl, type CombiningAlgorithm, getValidity } from "../core";
+import type {
+	IGroupDocument,
+	IPermissionDocument,
+	IPolicyDocument,
+	IRoleDocument,
+	ISerializedRegExp,
+	SerializedValue,
+} from "../types/policy-types";
+
+interface IToken {
+	column: number;
+	flags?: string;
+	kind: "comma" | "condition" | "regex" | "string" | "word";
+	line: number;
+	value: string;
+}
+
+interface IStatement {
+	/**
+	 * The column following the last token.
+	 */
+	end: number;
+	line: number;
+	tokens: IToken[];
+}
+
+const combiningAlgorithms: CombiningAlgorithm[] = [
+	"deny-overrides",
+	"first-applicable",
+	"last-applicable",
+	"permit-overrides",
+];
+const listTypes = ["dropdown", "list", "menu"];
+
+/**
+ * Error thrown when a policy written in the DSL can't be parsed.
+ */
+export class PolicySyntaxError extends Error {
+	readonly column: number;
+	readonly line: number;
+
+	/**
+	 * @param {string} message - The description of the error.
+	 * @param {number} line - The line of the error, starting at 1.
+	 * @param {number} column - The column of the error, starting at 1.
+	 */
+	constructor(message: string, line: number, column: number) {
+		super(`${message} (line ${line}, column ${column})`);
+		this.name = "PolicySyntaxError";
+		this.column = column;
+		this.line = line;
+	}
+}
+
+/**
+ * Parse a policy written in the DSL into an access control.
+ * @param {string} source - The policy source.
+ * @returns {AccessControl} The access control described by the policy.
+ * @throws {PolicySyntaxError} If the source can't be parsed.
+ * @throws {PolicyValidationError} If the parsed policy is invalid, e.g. has an inheritance cycle.
+ */
+export function parsePolicy(source: string): AccessControl {
+	return AccessControl.fromJSON(parsePolicyDocument(source));
+}
+
+/**
+ * Parse a policy written in the DSL into a policy document.
+ *
+ * @example
+ * # Comments start with a hash
+ * combining deny-overrides
+ * combining menu permit-overrides
+ *
+ * group viewers
+ * group editors inherits viewers
+ * role editor in editors strict
+ *
+ * allow viewers navigation /articles/**
+ * allow viewers navigation /home default
+ * deny editors navigation ~/^\/admin/i
+ * allow editors component billing-panel view, edit
+ * allow editors menu main home, "my articles"
+ * allow editors component article-editor edit when {"eq": [{"ref": "subject.id"}, {"ref": "resource.ownerId"}]}
+ * @param {string} source - The policy source.
+ * @returns {IPolicyDocument} The policy document.
+ * @throws {PolicySyntaxError} If the source can't be parsed.
+ */
+export function parsePolicyDocument(source: string): IPolicyDocument {
+	const document: IPolicyDocument = { groups: [], roles: [], version: 1 };
+	const declarations = new Map<string, IGroupDocument | IRoleDocument>();
+	const references: { token: IToken; validate: () => void }[] = [];
+	const permissions: {
+		rule: SerializedValue;
+		subject: IToken;
+		type: string;
+	}[] = [];
+
+	const reference = (token: IToken, kind: "group" | "subject") => {
+		references.push({
+			token,
+			validate: () => {
+				const declaration = declarations.get(token.value);
+
+				if (!declaration || (kind === "group" && !isGroup(declaration))) {
+					throw new PolicySyntaxError(
+						`${kind === "group" ? "group" : "role or group"} ${token.value} is not declared`,
+						token.line,
+						token.column,
+					);
+				}
+			},
+		});
+	};
+
+	tokenize(source).forEach((statement) => {
+		const reader = createReader(statement);
+		const keyword = reader.next("word", "a keyword");
+
+		switch (keyword.value) {
+			case "allow":
+			case "deny": {
+				const subject = reader.next("word", "a role or group");
+				const type = reader.next("word", "a permission type");
+
+				reference(subject, "subject");
+				permissions.push({
+					rule: readRule(reader, type, keyword.value === "deny"),
+					subject,
+					type: type.value,
+				});
+				break;
+			}
+			case "combining": {
+				const first = reader.next("word", "a combining algorithm");
+				const second = reader.peek();
+				const [type, algorithm] = second
+					? [first.value, reader.next("word", "a combining algorithm")]
+					: [undefined, first];
+
+				if (
+					!combiningAlgorithms.includes(algorithm.value as CombiningAlgorithm)
+				) {
+					throw new PolicySyntaxError(
+						`unknown combining algorithm ${algorithm.value}`,
+						statement.line,
+						algorithm.column,
+					);
+				}
+
+				if (type) {
+					document.combiningAlgorithms = {
+						...document.combiningAlgorithms,
+						[type]: algorithm.value as CombiningAlgorithm,
+					};
+				} else {
+					document.combiningAlgorithm = algorithm.value as CombiningAlgorithm;
+				}
+				break;
+			}
+			case "group": {
+				const code = reader.next("word", "a group code");
+				const group: IGroupDocument = { code: code.value, permissions: [] };
+
+				if (reader.accept("inherits")) {
+					const parent = reader.next("word", "a group code");
+
+					reference(parent, "group");
+					group.inheritFrom = parent.value;
+				}
+
+				declare(declarations, code, group);
+				document.groups.push(group);
+				break;
+			}
+			case "role": {
+				const code = reader.next("word", "a role code");
+				const role: IRoleDocument = {
+					code: code.value,
+					groups: [],
+					permissions: [],
+				};
+
+				if (reader.accept("in")) {
+					reader.list("a group code").forEach((group) => {
+						reference(group, "group");
+						role.groups.push(group.value);
+					});
+				}
+
+				if (reader.accept("strict")) {
+					role.strict = true;
+				}
+
+				declare(declarations, code, role);
+				document.roles.push(role);
+				break;
+			}
+			default:
+				throw new PolicySyntaxError(
+					`unknown keyword ${keyword.value}`,
+					statement.line,
+					keyword.column,
+				);
+		}
+
+		reader.end();
+	});
+
+	references.forEach(({ validate }) => {
+		validate();
+	});
+
+	permissions.forEach(({ rule, subject, type }) => {
+		const target = declarations.get(subject.value)!;
+		const permission = target.permissions.find(
+			(permission) => permission.type === type,
+		);
+
+		if (permission) {
+			permission.rules.push(rule);
+		} else {
+			target.permissions.push({ rules: [rule], type });
+		}
+	});
+
+	return document;
+}
+
+/**
+ * Print an access control, or a policy document, in the DSL.
+ * Role configs and functions such as route middlewares are not printed, and
+ * the permissions of a same type on a same role or group are merged. Time-bound rules and
+ * permissions can't be written in the DSL, and throw rather than be printed without their validity.
+ * @param {AccessControl | IPolicyDocument} policy - The policy to print.
+ * @returns {string} The policy source.
+ * @throws {Error} If the policy contains codes or rules the DSL can't represent.
+ */
+export function printPolicy(policy: AccessControl | IPolicyDocument): string {
+	const document = policy instanceof AccessControl ? policy.toJSON() : policy;
+	const groupCodes = document.groups.map(({ code }) => code);
+	const ambiguous = document.roles.find(({ code }) =>
+		groupCodes.includes(code),
+	);
+
+	if (ambiguous) {
+		throw new Error(`${ambiguous.code} is both a role and a group`);
+	}
+
+	const sections: string[][] = [[], [], [], []];
+	const [combining, groups, roles, rules] = sections;
+
+	if (
+		document.combiningAlgorithm &&
+		document.combiningAlgorithm !== "deny-overrides"
+	) {
+		combining.push(`combining ${document.combiningAlgorithm}`);
+	}
+
+	Object.entries(document.combiningAlgorithms ?? {}).forEach(
+		([type, algorithm]) => {
+			combining.push(`combining ${printWord(type)} ${algorithm}`);
+		},
+	);
+
+	document.groups.forEach(({ code, inheritFrom }) => {
+		groups.push(
+			[
+				"group",
+				printWord(code),
+				...(inheritFrom ? ["inherits", printWord(inheritFrom)] : []),
+			].join(" "),
+		);
+	});
+
+	document.roles.forEach(({ code, groups: memberships, strict }) => {
+		roles.push(
+			[
+				"role",
+				printWord(code),
+				...(memberships.length > 0
+					? ["in", memberships.map(printWord).join(", ")]
+					: []),
+				...(strict ? ["strict"] : []),
+			].join(" "),
+		);
+	});
+
+	[...document.groups, ...document.roles].forEach(({ code, permissions }) => {
+		permissions.forEach((permission) => {
+			if (permission.validity) {
+				throw new Error(`time-bound permissions can't be printed`);
+			}
+
+			permission.rules.forEach((rule) => {
+				rules.push(printRule(code, permission, rule));
+			});
+		});
+	});
+
+	return `${sections
+		.filter((section) => section.length > 0)
+		.map((section) => section.join("\n"))
+		.join("\n\n")}\n`;
+}
+
+/**
+ * Convert a glob into an anchored regular expression, where `**` matches anything and `*` matches anything but a slash.
+ * @param {string} glob - The glob.
+ * @returns {RegExp} The regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split("**")
+		.map((part) =>
+			part
+				.split("*")
+				.map((text) => text.replace(/[$()+.?[\\\]^{|}/]/g, "\\$&"))
+				.join("[^/]*"),
+		)
+		.join(".*");
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Declare a role or group, making sure its code is unique.
+ * @param {Map<string, IGroupDocument | IRoleDocument>} declarations - The declared roles and groups.
+ * @param {IToken} code - The code of the declaration.
+ * @param {IGroupDocument | IRoleDocument} declaration - The declaration.
+ * @throws {PolicySyntaxError} If the code is already declared.
+ */
+function declare(
+	declarations: Map<string, IGroupDocument | IRoleDocument>,
+	code: IToken,
+	declaration: IGroupDocument | IRoleDocument,
+) {
+	if (declarations.has(code.value)) {
+		throw new PolicySyntaxError(
+			`${code.value} is already declared`,
+			code.line,
+			code.column,
+		);
+	}
+
+	declarations.set(code.value, declaration);
+}
+
+/**
+ * Create a reader consuming the tokens of a statement.
+ * @param {IStatement} statement - The statement.
+ * @returns {object} The reader.
+ */
+function createReader({ end, line, tokens }: IStatement) {
+	let index = 0;
+
+	const fail = (expected: string): never => {
+		const token = tokens.at(index);
+
+		throw new PolicySyntaxError(
+			token
+				? `expected ${expected}, got ${token.value}`
+				: `expected ${expected}`,
+			line,
+			token?.column ?? end,
+		);
+	};
+	const next = (kind: "pattern" | "word", expected: string) => {
+		const token = tokens.at(index);
+
+		if (
+			!token ||
+			token.kind === "comma" ||
+			(kind === "word" && token.kind === "regex")
+		) {
+			return fail(expected);
+		}
+
+		index++;
+		return token;
+	};
+
+	return {
+		accept: (keyword: string) => {
+			const token = tokens.at(index);
+
+			if (
+				(token?.kind === "comma" || token?.kind === "word") &&
+				token.value === keyword
+			) {
+				index++;
+				return true;
+			}
+
+			return false;
+		},
+		end: () => {
+			if (index < tokens.length) {
+				fail("the end of the line");
+			}
+		},
+		list: (expected: string) => {
+			const items = [next("word", expected)];
+
+			while (tokens.at(index)?.kind === "comma") {
+				index++;
+				items.push(next("word", expected));
+			}
+
+			return items;
+		},
+		next,
+		peek: () => tokens.at(index),
+	};
+}
+
+/**
+ * Check whether a declaration is a group.
+ * @param {IGroupDocument | IRoleDocument} declaration - The declaration.
+ * @returns {boolean} True if the declaration is a group.
+ */
+function isGroup(
+	declaration: IGroupDocument | IRoleDocument,
+): declaration is IGroupDocument {
+	return !("groups" in declaration);
+}
+
+/**
+ * Print a pattern, as a glob when the regular expression was created from one.
+ * @param {SerializedValue} pattern - The serialized string or regular expression.
+ * @returns {string} The printed pattern.
+ */
+function printPattern(pattern: SerializedValue): string {
+	if (typeof pattern === "string") {
+		return printWord(pattern);
+	}
+
+	const { $regex, flags } = pattern as ISerializedRegExp;
+	const glob = $regex
+		.replace(/^\^|\$$/g, "")
+		.replaceAll(".*", "**")
+		.replaceAll("[^/]*", "*")
+		.replace(/\\(.)/g, "$1");
+
+	if (
+		flags === "" &&
+		/^[^\s",#~]*\*[^\s",#~]*$/.test(glob) &&
+		globToRegExp(glob).source === $regex
+	) {
+		return glob;
+	}
+
+	return `~/${$regex}/${flags}`;
+}
+
+/**
+ * Print a single rule as an allow or deny statement.
+ * @param {string} code - The code of the role or group holding the rule.
+ * @param {IPermissionDocument} permission - The permission holding the rule.
+ * @param {SerializedValue} rule - The rule.
+ * @returns {string} The statement.
+ * @throws {Error} If the rule can't be represented in the DSL.
+ */
+function printRule(
+	code: string,
+	{ type }: IPermissionDocument,
+	rule: SerializedValue,
+): string {
+	const { actions, condition, exclude, identifier, isDefault, list, route } =
+		rule as Record<string, SerializedValue>;
+	const statement = [
+		exclude ? "deny" : "allow",
+		printWord(code),
+		printWord(type),
+	];
+
+	if (getValidity(rule)) {
+		throw new Error(`time-bound rules can't be printed`);
+	}
+
+	if (type === "navigation") {
+		statement.push(printPattern(route), ...(isDefault ? ["default"] : []));
+	} else if (type === "component") {
+		statement.push(
+			printPattern(identifier),
+			(actions as string[]).map(printWord).join(", "),
+		);
+	} else if (listTypes.includes(type)) {
+		statement.push(
+			printPattern(identifier),
+			Array.isArray(list)
+				? list.map((item) => printWord(item as string)).join(", ")
+				: printPattern(list),
+		);
+	} else {
+		throw new Error(`permission type ${type} can't be printed`);
+	}
+
+	if (condition !== undefined) {
+		statement.push("when", JSON.stringify(condition));
+	}
+
+	return statement.join(" ");
+}
+
+/**
+ * Print a string as a word, quoting it when it would otherwise be read differently.
+ * @param {string} value - The string.
+ * @returns {string} The word.
+ */
+function printWord(value: string): string {
+	return /^[^\s",#~*]+$/.test(value) ? value : JSON.stringify(value);
+}
+
+/**
+ * Read the rule of an allow or deny statement.
+ * @param {object} reader - The reader of the statement.
+ * @param {IToken} typeToken - The permission type.
+ * @param {boolean} exclude - Whether the statement denies access.
+ * @returns {SerializedValue} The serialized rule.
+ * @throws {PolicySyntaxError} If the rule is malformed or the type is not supported.
+ */
+function readRule(
+	reader: ReturnType<typeof createReader>,
+	typeToken: IToken,
+	exclude: boolean,
+): SerializedValue {
+	const type = typeToken.value;
+	const readPattern = (expected: string) =>
+		toPattern(reader.next("pattern", expected));
+	const rule: Record<string, SerializedValue> = exclude ? { exclude } : {};
+
+	if (type === "navigation") {
+		rule.route = readPattern("a route");
+
+		if (reader.accept("default")) {
+			rule.isDefault = true;
+		}
+	} else if (type === "component") {
+		rule.identifier = readPattern("a component identifier");
+		rule.actions = reader.list("an action").map(({ value }) => value);
+	} else if (listTypes.includes(type)) {
+		rule.identifier = readPattern(`a ${type} identifier`);
+		rule.list = readPattern("an item");
+
+		if (typeof rule.list === "string") {
+			const items = [rule.list];
+
+			while (reader.accept(",")) {
+				items.push(reader.next("word", "an item").value);
+			}
+
+			rule.list = items;
+		}
+	} else {
+		throw new PolicySyntaxError(
+			`permission type ${type} is not supported`,
+			typeToken.line,
+			typeToken.column,
+		);
+	}
+
+	if (reader.accept("when")) {
+		const token = reader.next("pattern", "a condition");
+
+		if (token.kind !== "condition") {
+			throw new PolicySyntaxError(
+				`expected a condition, got ${token.value}`,
+				token.line,
+				token.column,
+			);
+		}
+
+		rule.condition = JSON.parse(token.value);
+	}
+
+	return rule;
+}
+
+/**
+ * Convert a token into a serialized pattern.
+ * @param {IToken} token - The token.
+ * @returns {SerializedValue} The string, or the regular expression of a regex or glob token.
+ */
+function toPattern(token: IToken): SerializedValue {
+	if (token.kind === "regex") {
+		return { $regex: token.value, flags: token.flags ?? "" };
+	}
+
+	if (token.kind === "word" && token.value.includes("*")) {
+		return { $regex: globToRegExp(token.value).source, flags: "" };
+	}
+
+	return token.value;
+}
+
+/**
+ * Split a policy source into statements of tokens, skipping blank lines and comments.
+ * A `when` keyword followed by an object makes the rest of the line a JSON condition.
+ * @param {string} source - The policy source.
+ * @returns {IStatement[]} The statements.
+ * @throws {PolicySyntaxError} If a string or regular expression is not terminated, or a condition is not valid JSON.
+ */
+function tokenize(source: string): IStatement[] {
+	return source.split(/\r?\n/).flatMap((text, lineIndex) => {
+		const line = lineIndex + 1;
+		const tokens: IToken[] = [];
+		let end = 0;
+		let index = 0;
+
+		while (index < text.length) {
+			const char = text[index];
+			const column = index + 1;
+
+			if (/\s/.test(char)) {
+				index++;
+			} else if (char === "#") {
+				break;
+			} else if (char === ",") {
+				tokens.push({ column, kind: "comma", line, value: "," });
+				index++;
+				end = index;
+			} else if (char === '"') {
+				const match = /^"(?:[^"\\]|\\.)*"/.exec(text.slice(index));
+
+				if (!match) {
+					throw new PolicySyntaxError("unterminated string", line, column);
+				}
+
+				tokens.push({
+					column,
+					kind: "string",
+					line,
+					value: JSON.parse(match[0]),
+				});
+				index += match[0].length;
+				end = index;
+			} else if (text.startsWith("~/", index)) {
+				const match =
+					/^~\/((?:[^/\\[]|\\.|\[(?:[^\]\\]|\\.)*\])*)\/([a-z]*)/.exec(
+						text.slice(index),
+					);
+
+				if (!match) {
+					throw new PolicySyntaxError(
+						"unterminated regular expression",
+						line,
+						column,
+					);
+				}
+
+				try {
+					new RegExp(match[1], match[2]);
+				} catch {
+					throw new PolicySyntaxError(
+						"invalid regular expression",
+						line,
+						column,
+					);
+				}
+
+				tokens.push({
+					column,
+					flags: match[2],
+					kind: "regex",
+					line,
+					value: match[1],
+				});
+				index += match[0].length;
+				end = index;
+			} else {
+				const [word] = /^[^\s,#"]+/.exec(text.slice(index))!;
+
+				tokens.push({ column, kind: "word", line, value: word });
+				index += word.length;
+				end = index;
+
+				const condition = text.slice(index).trim();
+
+				if (word === "when" && condition.startsWith("{")) {
+					try {
+						JSON.parse(condition);
+					} catch {
+						throw new PolicySyntaxError(
+							"invalid condition",
+							line,
+							text.indexOf("{", index) + 1,
+						);
+					}
+
+					tokens.push({
+						column: text.indexOf("{", index) + 1,
+						kind: "condition",
+						line,
+						value: condition,
+					});
+					end = text.trimEnd().length;
+					break;
+				}
+			}
+		}
+
+		return tokens.length > 0 ? [{ end: end + 1, line, tokens }] : [];
+	});
+}
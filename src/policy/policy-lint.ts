@@ -0,0 +1,337 @@
+import {
+	type AccessControl,
+	getValidity,
+	type Group,
+	type IRuleEntry,
+	type Permission,
+	Role,
+} from "../core";
+
+/**
+ * Severity of a lint finding, from the most to the least severe.
+ */
+export type LintSeverity = "error" | "info" | "warning";
+
+/**
+ * Interface for a rule reported by a lint check.
+ */
+export interface ILintIssue {
+	/**
+	 * The index of the rule among the rule entries given to the check.
+	 */
+	index: number;
+	message: string;
+}
+
+/**
+ * Interface for a named lint check.
+ */
+export interface ILintCheck {
+	/**
+	 * Find the offending rules of a permission.
+	 * @param {IRuleEntry<LintRule>[]} entries - The rules of the permission, including inherited ones, in evaluation order.
+	 * @param {string} type - The type of the permission.
+	 * @returns {ILintIssue[]} The offending rules.
+	 */
+	check(entries: IRuleEntry<LintRule>[], type: string): ILintIssue[];
+	name: string;
+	severity: LintSeverity;
+}
+
+/**
+ * Interface for a rule reported by the linter.
+ */
+export interface ILintFinding {
+	check: string;
+	message: string;
+
+	/**
+	 * The permission defining the rule.
+	 */
+	permission: Permission;
+	rule: LintRule;
+
+	/**
+	 * The index of the rule among the rules of its permission.
+	 */
+	ruleIndex: number;
+	severity: LintSeverity;
+
+	/**
+	 * The code of the role or group defining the rule.
+	 */
+	target: string;
+	targetKind: "group" | "role";
+	type: string;
+}
+
+/**
+ * Interface for the options of the linter.
+ */
+export interface ILintOptions {
+	/**
+	 * The checks to run, defaults to `lintChecks`.
+	 */
+	checks?: ILintCheck[];
+
+	/**
+	 * The names of the checks to skip.
+	 */
+	ignore?: string[];
+}
+
+/**
+ * Rule as seen by lint checks, whatever its permission type.
+ */
+export type LintRule = Record<string, unknown>;
+
+const severityRanks: Record<LintSeverity, number> = {
+	error: 0,
+	info: 2,
+	warning: 1,
+};
+
+/**
+ * The checks run by default by the linter.
+ */
+export const lintChecks: ILintCheck[] = [
+	{
+		check: (entries, type) => {
+			if (type !== "navigation") {
+				return [];
+			}
+
+			const defaults = entries.flatMap(({ origin, rule }, index) =>
+				rule.isDefault ? [{ index, origin, rule }] : [],
+			);
+
+			return defaults.slice(1).map(({ index }) => ({
+				index,
+				message: `${describeRule(defaults[0])} is already the default route`,
+			}));
+		},
+		name: "multiple-default-routes",
+		severity: "error",
+	},
+	{
+		check: (entries) =>
+			entries.flatMap(({ rule }, index) =>
+				Object.entries(rule)
+					.filter(
+						([, value]) => value instanceof RegExp && /[gy]/.test(value.flags),
+					)
+					.map(([property]) => ({
+						index,
+						message: `the ${property} regular expression is stateful, remove its g and y flags`,
+					})),
+			),
+		name: "stateful-regex",
+		severity: "error",
+	},
+	{
+		check: (entries, type) =>
+			entries.flatMap(({ rule }, index) => {
+				const shadowing = entries
+					.slice(0, index)
+					.find((earlier) => shadows(earlier.rule, rule, type));
+
+				return shadowing
+					? [
+							{
+								index,
+								message: `unreachable, ${describeRule(shadowing)} excludes it first`,
+							},
+						]
+					: [];
+			}),
+		name: "shadowed-rule",
+		severity: "warning",
+	},
+	{
+		check: (entries, type) =>
+			entries.flatMap(({ rule }, index) => {
+				const property = getKeyProperty(type);
+				const duplicate = entries
+					.slice(0, index)
+					.find(
+						(earlier) =>
+							rule[property] !== undefined &&
+							describePattern(earlier.rule[property]) ===
+								describePattern(rule[property]) &&
+							!!earlier.rule.exclude === !!rule.exclude,
+					);
+
+				return duplicate
+					? [
+							{
+								index,
+								message: `duplicates the ${property} of ${describeRule(duplicate)}`,
+							},
+						]
+					: [];
+			}),
+		name: "duplicate-identifier",
+		severity: "warning",
+	},
+	{
+		check: (entries, type) =>
+			type !== "component"
+				? []
+				: entries.flatMap(({ rule }, index) =>
+						Array.isArray(rule.actions) && rule.actions.length === 0
+							? [{ index, message: "never matches, its actions are empty" }]
+							: [],
+					),
+		name: "empty-actions",
+		severity: "warning",
+	},
+];
+
+/**
+ * Lint the rules of an access control, including the rules roles and groups inherit. Every rule is reported
+ * once per check, on the role or group defining it, and findings are sorted from the most severe.
+ * @param {AccessControl} accessControl - The access control.
+ * @param {ILintOptions} [options] - The checks to run.
+ * @returns {ILintFinding[]} The findings, empty if no check failed.
+ *
+ * @example
+ * lintPolicy(accessControl, { ignore: ["duplicate-identifier"] }).forEach(
+ *   ({ severity, check, target, type, ruleIndex, message }) =>
+ *     console.log(`${severity} ${check}: ${target} ${type} #${ruleIndex} ${message}`),
+ * );
+ */
+export function lintPolicy(
+	accessControl: AccessControl,
+	{ checks = lintChecks, ignore = [] }: ILintOptions = {},
+): ILintFinding[] {
+	const nodes = new Set<Group | Role>([
+		...accessControl.getRoles(),
+		...[
+			...accessControl.getGroups(),
+			...accessControl.getRoles().flatMap((role) => role.getInheritanceChain()),
+		].flatMap((group) => [...group.getAncestors().reverse(), group]),
+	]);
+	const reported = new Map<string, Set<unknown>>();
+	const findings: ILintFinding[] = [];
+
+	nodes.forEach((node) => {
+		node
+			.getPermissions()
+			.filter((permission) => permission.getTarget() === node)
+			.forEach((permission) => {
+				const type = permission.getType();
+				const entries = permission.getRuleEntries() as IRuleEntry<LintRule>[];
+
+				checks
+					.filter(({ name }) => !ignore.includes(name))
+					.forEach(({ check, name, severity }) => {
+						const rules = reported.get(name) ?? new Set();
+
+						reported.set(name, rules);
+						check(entries, type).forEach(({ index, message }) => {
+							const { origin, rule } = entries[index];
+
+							if (rules.has(rule)) {
+								return;
+							}
+
+							const definition = origin
+								.getPermissions(type)
+								.find(
+									(candidate) =>
+										candidate.getTarget() === origin &&
+										candidate.rules.includes(rule),
+								)!;
+
+							rules.add(rule);
+							findings.push({
+								check: name,
+								message,
+								permission: definition,
+								rule,
+								ruleIndex: definition.rules.indexOf(rule),
+								severity,
+								target: origin.getCode(),
+								targetKind: origin instanceof Role ? "role" : "group",
+								type,
+							});
+						});
+					});
+			});
+	});
+
+	return findings.sort(
+		(a, b) => severityRanks[a.severity] - severityRanks[b.severity],
+	);
+}
+
+/**
+ * Describe the pattern of a rule.
+ * @param {unknown} pattern - The string or regular expression.
+ * @returns {string} The description.
+ */
+function describePattern(pattern: unknown): string {
+	return pattern instanceof RegExp ? pattern.toString() : String(pattern);
+}
+
+/**
+ * Describe a rule by the role or group defining it and its pattern.
+ * @param {IRuleEntry<LintRule>} entry - The rule entry.
+ * @returns {string} The description.
+ */
+function describeRule({ origin, rule }: IRuleEntry<LintRule>): string {
+	const pattern = rule.route ?? rule.identifier;
+
+	return `the rule ${describePattern(pattern)} of ${origin.getCode()}`;
+}
+
+/**
+ * Get the property identifying the rules of a permission type.
+ * @param {string} type - The permission type.
+ * @returns {string} `route` for navigation rules, `identifier` otherwise.
+ */
+function getKeyProperty(type: string): string {
+	return type === "navigation" ? "route" : "identifier";
+}
+
+/**
+ * Check whether a rule always excludes the actions a later rule allows, making the later rule unreachable.
+ * Only navigation and component rules stop at the first exclusion, and only unconditional, permanent
+ * exclusions are considered.
+ * @param {LintRule} earlier - The earlier rule.
+ * @param {LintRule} rule - The later rule.
+ * @param {string} type - The permission type.
+ * @returns {boolean} True if the earlier rule shadows the later one.
+ */
+function shadows(earlier: LintRule, rule: LintRule, type: string): boolean {
+	if (
+		!["component", "navigation"].includes(type) ||
+		!earlier.exclude ||
+		rule.exclude ||
+		earlier.condition !== undefined ||
+		getValidity(earlier)
+	) {
+		return false;
+	}
+
+	const property = getKeyProperty(type);
+	const [pattern, value] = [earlier[property], rule[property]];
+	const covered =
+		pattern instanceof RegExp
+			? typeof value === "string"
+				? new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, "")).test(
+						value,
+					)
+				: describePattern(pattern) === describePattern(value)
+			: pattern === value;
+
+	return (
+		covered &&
+		(type === "navigation" ||
+			(Array.isArray(rule.actions) &&
+				rule.actions.length > 0 &&
+				rule.actions.every((action) =>
+					(earlier.actions as unknown[]).includes(action),
+				)))
+	);
+}
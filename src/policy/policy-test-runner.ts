@@ -0,0 +1,445 @@
+import {
+	Action,
+	type AccessControl,
+	type IActionContext,
+	type IPermissionDecision,
+	TenantAccessControl,
+} from "../core";
+import { ListAccessPermission } from "../permissions/list/list-permission";
+
+/**
+ * Interface for an expected decision of a policy.
+ */
+export interface IPolicyExpectation {
+	/**
+	 * The items the role is expected to access, for list permissions such as menus and dropdowns.
+	 */
+	accessibleList?: string[];
+	allow: boolean;
+	context?: IActionContext;
+
+	/**
+	 * The expected message of the decision, the failure message of a denied action.
+	 */
+	message?: string;
+
+	/**
+	 * The name of the expectation in the report, defaults to the action type and parameters.
+	 */
+	name?: string;
+	parameters: object;
+	roleCode: string;
+
+	/**
+	 * The tenant of the action, decided against the policy of the tenant by tenant access controls.
+	 */
+	tenantId?: string;
+	type: string;
+}
+
+/**
+ * Interface for the result of an expectation.
+ */
+export interface IPolicyTestResult {
+	decision: IPermissionDecision;
+	expectation: IPolicyExpectation;
+
+	/**
+	 * The differences between the expectation and the decision, empty if the expectation is met.
+	 */
+	failures: string[];
+	passed: boolean;
+}
+
+/**
+ * Interface for the report of a policy test run.
+ */
+export interface IPolicyTestReport {
+	failed: number;
+
+	/**
+	 * The failed results, by role code.
+	 */
+	failures: Record<string, IPolicyTestResult[]>;
+	passed: number;
+	results: IPolicyTestResult[];
+}
+
+/**
+ * Error thrown when a table of expectations can't be parsed.
+ */
+export class PolicyTestTableError extends Error {
+	readonly row: number;
+
+	/**
+	 * @param {string} message - The description of the error.
+	 * @param {number} row - The row of the error, starting at 1, the header of a CSV table being row 1.
+	 */
+	constructor(message: string, row: number) {
+		super(`${message} (row ${row})`);
+		this.name = "PolicyTestTableError";
+		this.row = row;
+	}
+}
+
+const csvColumns = [
+	"accessibleList",
+	"allow",
+	"context",
+	"message",
+	"name",
+	"parameters",
+	"roleCode",
+	"tenantId",
+	"type",
+];
+const jsonColumns = ["accessibleList", "context", "parameters"];
+
+/**
+ * Format a report as readable text, listing the failures grouped by role.
+ * @param {IPolicyTestReport} report - The report.
+ * @returns {string} The text of the report.
+ */
+export function formatPolicyTestReport({
+	failed,
+	failures,
+	passed,
+}: IPolicyTestReport): string {
+	const lines = [`${passed} passed, ${failed} failed`];
+
+	Object.entries(failures).forEach(([roleCode, results]) => {
+		lines.push("", roleCode);
+		results.forEach(({ expectation, failures: differences }) => {
+			lines.push(
+				`  ✗ ${describeExpectation(expectation)}`,
+				...differences.map((difference) => `      ${difference}`),
+			);
+		});
+	});
+
+	return lines.join("\n");
+}
+
+/**
+ * Parse a table of expectations from JSON or CSV.
+ * A JSON table is an array of expectations. A CSV table starts with a header naming its columns after the
+ * properties of the expectations, its `allow` cells being `allow`, `deny`, `true` or `false`, and its
+ * `parameters`, `context` and `accessibleList` cells being JSON.
+ * @param {string} source - The table, a JSON array or CSV.
+ * @returns {IPolicyExpectation[]} The expectations.
+ * @throws {PolicyTestTableError} If the table is invalid.
+ *
+ * @example
+ * parsePolicyTestTable(`roleCode,type,parameters,allow
+ * EDITOR,navigation,"{""route"":""/articles""}",allow
+ * GUEST,navigation,"{""route"":""/articles""}",deny`);
+ */
+export function parsePolicyTestTable(source: string): IPolicyExpectation[] {
+	if (source.trimStart().startsWith("[")) {
+		let rows: unknown;
+
+		try {
+			rows = JSON.parse(source);
+		} catch (error) {
+			throw new PolicyTestTableError(`invalid JSON: ${error}`, 1);
+		}
+
+		return (rows as unknown[]).map((row, index) =>
+			toExpectation(row, index + 1),
+		);
+	}
+
+	const [header, ...rows] = parseCsv(source);
+
+	header?.forEach((column) => {
+		if (!csvColumns.includes(column)) {
+			throw new PolicyTestTableError(`unknown column ${column}`, 1);
+		}
+	});
+
+	return rows.map((cells, index) => {
+		const row = index + 2;
+		const entries = header
+			.map((column, cell) => [column, cells[cell] ?? ""])
+			.filter(([, value]) => value !== "")
+			.map(([column, value]) => [
+				column,
+				column === "allow"
+					? parseAllowCell(value, row)
+					: jsonColumns.includes(column)
+						? parseJsonCell(column, value, row)
+						: value,
+			]);
+
+		return toExpectation(Object.fromEntries(entries), row);
+	});
+}
+
+/**
+ * Run a table of expectations against an access control. The expectations of a tenant are decided against the
+ * policy of the tenant when run against a tenant access control, and fail if the tenant doesn't exist.
+ * @param {AccessControl | TenantAccessControl} accessControl - The access control.
+ * @param {IPolicyExpectation[] | string} table - The expectations, or a JSON or CSV table of expectations.
+ * @returns {IPolicyTestReport} The report of the run.
+ * @throws {PolicyTestTableError} If the table is invalid.
+ *
+ * @example
+ * const report = runPolicyTests(accessControl, fs.readFileSync("policy-tests.csv", "utf8"));
+ *
+ * if (report.failed > 0) {
+ *   console.error(formatPolicyTestReport(report));
+ * }
+ */
+export function runPolicyTests(
+	accessControl: AccessControl | TenantAccessControl,
+	table: IPolicyExpectation[] | string,
+): IPolicyTestReport {
+	const expectations =
+		typeof table === "string" ? parsePolicyTestTable(table) : table;
+	const decisions = accessControl.probe(
+		expectations.map(
+			({ context, parameters, roleCode, tenantId, type }) =>
+				new Action(roleCode, type, parameters, { context, tenantId }),
+		),
+	);
+	const results = expectations.map((expectation, index) => {
+		const failures = compareDecision(
+			expectation,
+			decisions[index],
+			getPolicy(accessControl, expectation.tenantId)?.getTime() ?? new Date(),
+		);
+
+		return {
+			decision: decisions[index],
+			expectation,
+			failures,
+			passed: failures.length === 0,
+		};
+	});
+	const failed = results.filter(({ passed }) => !passed);
+	const failures: Record<string, IPolicyTestResult[]> = {};
+
+	failed.forEach((result) => {
+		(failures[result.expectation.roleCode] ??= []).push(result);
+	});
+
+	return {
+		failed: failed.length,
+		failures,
+		passed: results.length - failed.length,
+		results,
+	};
+}
+
+/**
+ * Compare a decision with its expectation.
+ * @param {IPolicyExpectation} expectation - The expectation.
+ * @param {IPermissionDecision} decision - The decision.
+ * @param {Date} now - The time the accessible list is evaluated at.
+ * @returns {string[]} The differences, empty if the expectation is met.
+ */
+function compareDecision(
+	{ accessibleList, allow, message }: IPolicyExpectation,
+	{ action, message: decisionMessage, permission, status }: IPermissionDecision,
+	now: Date,
+): string[] {
+	const failures: string[] = [];
+	const allowed = status === "success";
+
+	if (allowed !== allow) {
+		failures.push(
+			`expected ${describeOutcome(allow)}, got ${describeOutcome(allowed)}` +
+				(decisionMessage.message ? ` (${decisionMessage.message})` : ""),
+		);
+	}
+
+	if (message !== undefined && decisionMessage.message !== message) {
+		failures.push(
+			`expected message "${message}", got "${decisionMessage.message ?? ""}"`,
+		);
+	}
+
+	if (accessibleList) {
+		const actual =
+			allowed && permission instanceof ListAccessPermission
+				? [...new Set(permission.getAccessibleList(action, now))]
+				: [];
+
+		if ([...actual].sort().join() !== [...accessibleList].sort().join()) {
+			failures.push(
+				`expected accessible list [${accessibleList.join(", ")}], got [${actual.join(", ")}]`,
+			);
+		}
+	}
+
+	return failures;
+}
+
+/**
+ * Describe an expectation by its name, or its action type and parameters.
+ * @param {IPolicyExpectation} expectation - The expectation.
+ * @returns {string} The description.
+ */
+function describeExpectation({
+	name,
+	parameters,
+	type,
+}: IPolicyExpectation): string {
+	return name ?? `${type} ${JSON.stringify(parameters)}`;
+}
+
+/**
+ * Describe the outcome of a decision.
+ * @param {boolean} allowed - Whether the action is allowed.
+ * @returns {string} `allow` or `deny`.
+ */
+function describeOutcome(allowed: boolean): string {
+	return allowed ? "allow" : "deny";
+}
+
+/**
+ * Get the policy the expectations of a tenant are decided against.
+ * @param {AccessControl | TenantAccessControl} accessControl - The access control.
+ * @param {string} [tenantId] - The tenant of the expectation.
+ * @returns {AccessControl | undefined} The policy of the tenant, the base policy if the expectation has no tenant,
+ * or undefined if the tenant doesn't exist.
+ */
+function getPolicy(
+	accessControl: AccessControl | TenantAccessControl,
+	tenantId?: string,
+): AccessControl | undefined {
+	if (!(accessControl instanceof TenantAccessControl)) {
+		return accessControl;
+	}
+
+	return tenantId === undefined
+		? accessControl.getBase()
+		: accessControl.getTenant(tenantId);
+}
+
+/**
+ * Parse an `allow` cell of a CSV table.
+ * @param {string} value - The cell.
+ * @param {number} row - The row of the cell.
+ * @returns {boolean} Whether the action is expected to be allowed.
+ * @throws {PolicyTestTableError} If the cell is neither `allow`, `deny`, `true` nor `false`.
+ */
+function parseAllowCell(value: string, row: number): boolean {
+	const allow = { allow: true, deny: false, false: false, true: true }[
+		value.trim().toLowerCase()
+	];
+
+	if (allow === undefined) {
+		throw new PolicyTestTableError(
+			`allow must be allow, deny, true or false: ${value}`,
+			row,
+		);
+	}
+
+	return allow;
+}
+
+/**
+ * Parse rows of comma-separated values, quoted values escaping their quotes by doubling them.
+ * Blank lines are skipped.
+ * @param {string} source - The CSV source.
+ * @returns {string[][]} The rows of values.
+ */
+function parseCsv(source: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let value = "";
+	let quoted = false;
+
+	for (let index = 0; index < source.length; index++) {
+		const char = source[index];
+
+		if (quoted) {
+			if (char === '"' && source[index + 1] === '"') {
+				value += char;
+				index++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				value += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(value);
+			value = "";
+		} else if (char === "\n" || char === "\r") {
+			row.push(value);
+			rows.push(row);
+			row = [];
+			value = "";
+
+			if (char === "\r" && source[index + 1] === "\n") {
+				index++;
+			}
+		} else {
+			value += char;
+		}
+	}
+
+	rows.push([...row, value]);
+
+	return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Parse a JSON cell of a CSV table.
+ * @param {string} column - The column of the cell.
+ * @param {string} value - The cell.
+ * @param {number} row - The row of the cell.
+ * @returns {unknown} The parsed value.
+ * @throws {PolicyTestTableError} If the cell is not valid JSON.
+ */
+function parseJsonCell(column: string, value: string, row: number): unknown {
+	try {
+		return JSON.parse(value);
+	} catch {
+		throw new PolicyTestTableError(`${column} must be JSON: ${value}`, row);
+	}
+}
+
+/**
+ * Check that a row of a table is a valid expectation.
+ * @param {unknown} value - The row.
+ * @param {number} row - The number of the row.
+ * @returns {IPolicyExpectation} The expectation.
+ * @throws {PolicyTestTableError} If the row is invalid.
+ */
+function toExpectation(value: unknown, row: number): IPolicyExpectation {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw new PolicyTestTableError("must be an object", row);
+	}
+
+	const expectation = { parameters: {}, ...value } as Record<string, unknown>;
+	const checks: [string, boolean, string][] = [
+		["roleCode", typeof expectation.roleCode === "string", "a string"],
+		["type", typeof expectation.type === "string", "a string"],
+		["allow", typeof expectation.allow === "boolean", "a boolean"],
+		[
+			"parameters",
+			typeof expectation.parameters === "object" &&
+				expectation.parameters !== null,
+			"an object",
+		],
+		[
+			"accessibleList",
+			expectation.accessibleList === undefined ||
+				(Array.isArray(expectation.accessibleList) &&
+					expectation.accessibleList.every((item) => typeof item === "string")),
+			"an array of strings",
+		],
+	];
+
+	checks.forEach(([property, valid, kind]) => {
+		if (!valid) {
+			throw new PolicyTestTableError(`${property} must be ${kind}`, row);
+		}
+	});
+
+	return expectation as unknown as IPolicyExpectation;
+}
@@ -1,11 +1,39 @@
 import { ComponentAccessPermission } from "../permissions/component/component-permission.js";
+import { DropdownAccessPermission } from "../permissions/dropdown/dropdown-permission.js";
 import { MenuAccessPermission } from "../permissions/menu/menu-permission.js";
 import { RouteAccessPermission } from "../permissions/route/route-permission.js";
 
-export type RolePermissions = {
+/**
+ * Map of the permission classes by permission type. Custom permission types
+ * get optional typed entries in `RolePermissions` by augmenting it:
+ *
+ * @example
+ * declare module "permit-core" {
+ *   interface IPermissionTypeMap {
+ *     feature: CustomAccessPermission<"feature", IFeatureRule, IFeatureParameters>;
+ *   }
+ * }
+ */
+export interface IPermissionTypeMap {
   navigation: RouteAccessPermission;
   component: ComponentAccessPermission;
   menu: MenuAccessPermission;
+  dropdown: DropdownAccessPermission;
+}
+
+/**
+ * The permission types every role permission map defines.
+ */
+type RequiredPermissionType = "navigation" | "component" | "menu";
+
+export type RolePermissions = Pick<
+  IPermissionTypeMap,
+  RequiredPermissionType
+> & {
+  [K in Exclude<
+    keyof IPermissionTypeMap,
+    RequiredPermissionType
+  >]?: IPermissionTypeMap[K];
 };
 export type GroupPermissions = Partial<RolePermissions>;
 export type RolePermissionGroup<R extends string> = Record<R, RolePermissions>;
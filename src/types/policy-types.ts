@@ -0,0 +1,103 @@
+import type { CombiningAlgorithm } from "../core/combining-algorithms.js";
+
+/**
+ * Lossless JSON encoding of a regular expression.
+ */
+export interface ISerializedRegExp {
+	$regex: string;
+	flags: string;
+}
+
+/**
+ * JSON value of a serialized rule, where regular expressions are encoded as `ISerializedRegExp`.
+ */
+export type SerializedValue =
+	| boolean
+	| ISerializedRegExp
+	| null
+	| number
+	| SerializedValue[]
+	| string
+	| { [key: string]: SerializedValue };
+
+/**
+ * Serialized permission, holding its own rules without the inherited ones.
+ */
+export interface IPermissionDocument {
+	rules: SerializedValue[];
+	type: string;
+
+	/**
+	 * The period during which the whole permission is in effect.
+	 */
+	validity?: { [key: string]: SerializedValue };
+}
+
+/**
+ * Serialized group, referencing the group it inherits from by code.
+ */
+export interface IGroupDocument {
+	code: string;
+	inheritFrom?: string;
+	permissions: IPermissionDocument[];
+}
+
+/**
+ * Serialized role, referencing its groups by code.
+ */
+export interface IRoleDocument {
+	code: string;
+	config?: SerializedValue;
+	groups: string[];
+	permissions: IPermissionDocument[];
+	strict?: boolean;
+}
+
+/**
+ * Serialized policy of an access control.
+ */
+export interface IPolicyDocument {
+	combiningAlgorithm?: CombiningAlgorithm;
+	combiningAlgorithms?: Partial<Record<string, CombiningAlgorithm>>;
+	groups: IGroupDocument[];
+	roles: IRoleDocument[];
+	version: 1;
+}
+
+/**
+ * Kind of value accepted by a rule property, `condition` being a serializable condition expression,
+ * `date` a timestamp or a date string and `time-windows` an array of recurring time windows.
+ */
+export type RuleValueKind =
+	| "boolean"
+	| "condition"
+	| "date"
+	| "regex"
+	| "string"
+	| "string-array"
+	| "time-windows";
+
+/**
+ * Schema of a single rule property.
+ */
+export interface IRulePropertySchema {
+	kinds: RuleValueKind[];
+	optional?: boolean;
+}
+
+/**
+ * Schema of the rules of a permission type, keyed by property name.
+ */
+export type RuleSchema = Record<string, IRulePropertySchema>;
+
+/**
+ * Error found while validating a policy document.
+ */
+export interface IPolicyValidationError {
+	message: string;
+
+	/**
+	 * JSON pointer to the invalid value, e.g. `/roles/0/permissions/1/rules/0/list`.
+	 */
+	path: string;
+}
@@ -1 +1,2 @@
 export * from "./array-utils";
+export * from "./pattern-utils";
@@ -0,0 +1,29 @@
+/**
+ * Interface describing how a pattern matched a value.
+ */
+export interface IPatternMatch {
+	matchedBy: "regex" | "string";
+	pattern: string;
+}
+
+/**
+ * Match a value against a regular expression or an exact string. The `lastIndex` of the regular expression
+ * is reset first, so that global and sticky expressions match the same way every time a rule is evaluated.
+ * @param {RegExp | string} pattern - The pattern to match.
+ * @param {string} value - The value to match against the pattern.
+ * @returns {IPatternMatch | undefined} How the pattern matched, or undefined if it didn't.
+ */
+export function matchPattern(
+	pattern: RegExp | string,
+	value: string,
+): IPatternMatch | undefined {
+	if (pattern instanceof RegExp) {
+		pattern.lastIndex = 0;
+
+		return pattern.test(value)
+			? { matchedBy: "regex", pattern: pattern.toString() }
+			: undefined;
+	}
+
+	return pattern === value ? { matchedBy: "string", pattern } : undefined;
+}